@@ -2,6 +2,7 @@ import { storage } from "./storage";
 import { AdPost, Campaign } from "@shared/schema";
 import { format, addHours, isAfter, isBefore, parseISO } from "date-fns";
 import type { SocialPlatform } from "@shared/types";
+import { generateUnusedLinkCode, buildShortUrl, createAdPostWithTrackingLink } from "./tracking-links";
 
 // Mock implementation of social media API calls
 // In a real application, these would be replaced with actual API calls
@@ -10,11 +11,13 @@ import type { SocialPlatform } from "@shared/types";
  * Generate content for a social media post based on campaign template
  * @param campaign The campaign data
  * @param platform The social media platform
+ * @param linkUrl Tracking link to use instead of the campaign's form URL
  * @returns Generated post content
  */
 export async function generatePostContent(
   campaign: Campaign, 
-  platform: SocialPlatform
+  platform: SocialPlatform,
+  linkUrl?: string
 ): Promise<string> {
   let content = campaign.messageTemplate;
   
@@ -42,8 +45,9 @@ export async function generatePostContent(
   }
   
   // Add link to form if available
-  if (campaign.formUrl) {
-    content += `\n\nApply now: ${campaign.formUrl}`;
+  const url = linkUrl ?? campaign.formUrl;
+  if (url) {
+    content += `\n\nApply now: ${url}`;
   }
   
   return content;
@@ -95,18 +99,32 @@ export async function checkAndSchedulePosts(): Promise<void> {
           postTime.setHours(postTime.getHours() + 1, 0, 0, 0);
         }
         
+        // Each post links through its own short tracking link so clicks can be
+        // attributed per post and platform
+        const linkCode = campaign.formUrl ? await generateUnusedLinkCode() : null;
+        
         // Generate content for the post
-        const content = await generatePostContent(campaign, platform as SocialPlatform);
+        const content = await generatePostContent(
+          campaign,
+          platform as SocialPlatform,
+          linkCode ? buildShortUrl(linkCode) : undefined
+        );
         
-        // Create the post
-        await storage.createAdPost({
+        const adPost = {
           campaignId: campaign.id,
           platform,
           postContent: content,
           postTime,
           status: 'scheduled',
           location: 'All India'
-        });
+        };
+        
+        // Create the post, with its link when it has one
+        if (linkCode) {
+          await createAdPostWithTrackingLink(adPost, campaign, linkCode);
+        } else {
+          await storage.createAdPost(adPost);
+        }
       }
     }
   }
@@ -122,13 +140,12 @@ export async function runSocialPost(post: AdPost): Promise<AdPost> {
     // In a real application, this would make API calls to social media platforms
     console.log(`Posting to ${post.platform}: ${post.postContent}`);
     
-    // Simulate a successful post
+    // Simulate a successful post. Clicks are counted by the tracking link and
+    // leads captured from attributed leads, so only impressions are simulated.
     const updatedPost = await storage.updateAdPost(post.id, {
       status: 'posted',
       // Simulate some analytics
       impressions: Math.floor(Math.random() * 1000) + 200,
-      clicks: Math.floor(Math.random() * 200) + 50,
-      leadsCaptured: Math.floor(Math.random() * 50) + 5,
     });
     
     return updatedPost;
@@ -0,0 +1,143 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { requirePermission, apiKeyScopes } from "./permissions";
+import type { ApiKey } from "./schema";
+
+// Keys look like "slp_<prefix>_<secret>"; the prefix identifies the key, the
+// secret is only ever stored hashed
+const KEY_PREFIX = "slp";
+
+// Only persist last-used updates this often to avoid a write per request
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1),
+  scopes: z.array(z.enum(Object.keys(apiKeyScopes) as [string, ...string[]])).min(1),
+  expiresAt: z.coerce.date().refine(date => date > new Date(), "Expiry must be in the future").optional(),
+});
+
+/**
+ * Hash an API key secret for storage
+ * @param secret The key secret
+ * @returns Hex-encoded SHA-256 digest
+ */
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * Strip the hash before sending a key to the client
+ * @param apiKey The API key record
+ * @returns API key without its hash
+ */
+function sanitizeApiKey(apiKey: ApiKey) {
+  const { keyHash: _keyHash, ...rest } = apiKey;
+  return rest;
+}
+
+/**
+ * Middleware that authenticates "Authorization: Bearer slp_..." headers.
+ * Requests without an API key pass through untouched so sessions keep working.
+ */
+export async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const header = req.get("authorization");
+  if (!header || !header.startsWith(`Bearer ${KEY_PREFIX}_`)) return next();
+
+  try {
+    const [, prefix, secret] = header.slice("Bearer ".length).trim().split("_");
+    if (!prefix || !secret) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+
+    const apiKey = await storage.getApiKeyByPrefix(prefix);
+    const valid = apiKey &&
+      !apiKey.revokedAt &&
+      (!apiKey.expiresAt || apiKey.expiresAt > new Date()) &&
+      timingSafeEqual(Buffer.from(apiKey.keyHash, "hex"), Buffer.from(hashSecret(secret), "hex"));
+
+    if (!valid) {
+      return res.status(401).json({ message: "Invalid API key" });
+    }
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await storage.touchApiKey(apiKey.id, req.ip);
+    }
+
+    req.apiKey = apiKey;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Set up API key authentication and the admin routes that manage keys
+ * @param app Express application
+ */
+export function setupApiKeys(app: Express): void {
+  app.use(authenticateApiKey);
+
+  // List API keys
+  app.get("/api/admin/api-keys", requirePermission("apiKeys", "read"), async (req, res) => {
+    try {
+      const keys = await storage.getAllApiKeys();
+      res.json(keys.map(sanitizeApiKey));
+    } catch (error) {
+      console.error("Error fetching API keys:", error);
+      res.status(500).json({ message: "Error fetching API keys" });
+    }
+  });
+
+  // List the scopes that can be granted
+  app.get("/api/admin/api-keys/scopes", requirePermission("apiKeys", "read"), (req, res) => {
+    res.json(apiKeyScopes);
+  });
+
+  // Issue an API key. The full key is only returned once.
+  app.post("/api/admin/api-keys", requirePermission("apiKeys", "create"), async (req, res) => {
+    try {
+      const parsed = createApiKeySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const prefix = randomBytes(6).toString("hex");
+      const secret = randomBytes(24).toString("hex");
+      const apiKey = await storage.createApiKey({
+        name: parsed.data.name,
+        prefix,
+        keyHash: hashSecret(secret),
+        scopes: parsed.data.scopes,
+        expiresAt: parsed.data.expiresAt ?? null,
+        createdBy: req.user!.id,
+      });
+
+      res.status(201).json({ ...sanitizeApiKey(apiKey), key: `${KEY_PREFIX}_${prefix}_${secret}` });
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      res.status(500).json({ message: "Error creating API key" });
+    }
+  });
+
+  // Revoke an API key
+  app.delete("/api/admin/api-keys/:id", requirePermission("apiKeys", "delete"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid API key ID" });
+      }
+
+      const apiKey = await storage.revokeApiKey(id);
+      if (!apiKey) {
+        return res.status(404).json({ message: "API key not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      res.status(500).json({ message: "Error revoking API key" });
+    }
+  });
+}
@@ -0,0 +1,121 @@
+import type { Request } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+
+// Click identifiers appended to tracked links: "ap-<adPostId>" or "cp-<campaignId>"
+const AD_POST_CLICK_PATTERN = /^ap-(\d+)$/;
+const CAMPAIGN_CLICK_PATTERN = /^cp-(\d+)$/;
+
+const UTM_PARAMS = {
+  utm_source: 'utmSource',
+  utm_medium: 'utmMedium',
+  utm_campaign: 'utmCampaign',
+  utm_term: 'utmTerm',
+  utm_content: 'utmContent',
+} as const;
+
+const attributionSchema = z.object({
+  utm_source: z.string().trim().max(200).optional(),
+  utm_medium: z.string().trim().max(200).optional(),
+  utm_campaign: z.string().trim().max(200).optional(),
+  utm_term: z.string().trim().max(200).optional(),
+  utm_content: z.string().trim().max(200).optional(),
+  referrer: z.string().trim().max(2000).optional(),
+  landingUrl: z.string().trim().max(2000).optional(),
+  clickId: z.string().trim().max(100).optional(),
+  adPostId: z.coerce.number().int().positive().optional(),
+  campaignId: z.coerce.number().int().positive().optional(),
+});
+
+// Attribution as stored in lead details
+export interface LeadAttribution {
+  utmSource: string | null;
+  utmMedium: string | null;
+  utmCampaign: string | null;
+  utmTerm: string | null;
+  utmContent: string | null;
+  referrer: string | null;
+  landingUrl: string | null;
+  clickId: string | null;
+  adPostId: number | null;
+  campaignId: number | null;
+}
+
+/**
+ * Read attribution sent with a submission. Values may come from the body or the
+ * query string; UTM parameters missing from both are read from the landing URL.
+ * @param req The submission request
+ * @returns Raw attribution values, or null if none were sent
+ */
+function readAttribution(req: Request): z.infer<typeof attributionSchema> | null {
+  const candidates = { ...req.query, ...(req.body ?? {}) } as Record<string, unknown>;
+  const raw: Record<string, unknown> = {};
+  for (const key of Object.keys(attributionSchema.shape)) {
+    if (typeof candidates[key] === 'string' || typeof candidates[key] === 'number') {
+      raw[key] = candidates[key];
+    }
+  }
+
+  // Malformed values are dropped rather than failing the submission
+  const parsed = attributionSchema.safeParse(raw);
+  const attribution = parsed.success ? parsed.data : {};
+
+  if (attribution.landingUrl) {
+    try {
+      const params = new URL(attribution.landingUrl).searchParams;
+      for (const param of Object.keys(UTM_PARAMS) as Array<keyof typeof UTM_PARAMS>) {
+        const value = params.get(param)?.trim().slice(0, 200);
+        if (!attribution[param] && value) attribution[param] = value;
+      }
+      const clickId = params.get('clk')?.trim().slice(0, 100);
+      if (!attribution.clickId && clickId) attribution.clickId = clickId;
+    } catch {
+      // Not an absolute URL; keep it as given
+    }
+  }
+
+  return Object.values(attribution).some(value => value !== undefined && value !== '') ? attribution : null;
+}
+
+/**
+ * Resolve the attribution sent with a submission, linking it to an ad post and
+ * campaign when the click identifier or explicit IDs point at real ones
+ * @param req The submission request
+ * @returns Attribution to store with the lead, or null if none was sent
+ */
+export async function resolveAttribution(req: Request): Promise<LeadAttribution | null> {
+  const attribution = readAttribution(req);
+  if (!attribution) return null;
+
+  let adPostId = attribution.adPostId ?? null;
+  let campaignId = attribution.campaignId ?? null;
+
+  const adPostClick = attribution.clickId?.match(AD_POST_CLICK_PATTERN);
+  const campaignClick = attribution.clickId?.match(CAMPAIGN_CLICK_PATTERN);
+  if (adPostClick) adPostId = parseInt(adPostClick[1]);
+  if (campaignClick) campaignId = parseInt(campaignClick[1]);
+
+  // An ad post determines its campaign; unknown IDs are ignored
+  if (adPostId !== null) {
+    const adPost = await storage.getAdPostById(adPostId);
+    adPostId = adPost ? adPost.id : null;
+    if (adPost) campaignId = adPost.campaignId;
+  }
+  if (campaignId !== null && adPostId === null) {
+    const campaign = await storage.getCampaignById(campaignId);
+    campaignId = campaign ? campaign.id : null;
+  }
+
+  return {
+    utmSource: attribution.utm_source || null,
+    utmMedium: attribution.utm_medium || null,
+    utmCampaign: attribution.utm_campaign || null,
+    utmTerm: attribution.utm_term || null,
+    utmContent: attribution.utm_content || null,
+    referrer: attribution.referrer || null,
+    landingUrl: attribution.landingUrl || null,
+    clickId: attribution.clickId || null,
+    adPostId,
+    campaignId,
+  };
+}
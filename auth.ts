@@ -1,11 +1,15 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type Response, type NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User } from "@shared/schema";
+import { log } from "./vite";
+import { trackSessionActivity, setupSessionManagement } from "./sessions";
+import { validatePassword } from "./password-policy";
+import { getLockout, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
 
 declare global {
   namespace Express {
@@ -30,7 +34,7 @@ const scryptAsync = promisify(scrypt);
  * @param password Password to hash
  * @returns Hashed password with salt
  */
-async function hashPassword(password: string): Promise<string> {
+export async function hashPassword(password: string): Promise<string> {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
@@ -49,6 +53,70 @@ async function comparePasswords(supplied: string, stored: string): Promise<boole
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+/**
+ * Strip credentials from a user before sending it to the client
+ * @param user The user record
+ * @returns User without the password hash
+ */
+export function sanitizeUser<T extends { password: string }>(user: T): Omit<T, "password"> {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+/**
+ * Create the first admin account from ADMIN_USERNAME / ADMIN_PASSWORD
+ * (and optionally ADMIN_EMAIL) when no admin exists yet
+ */
+export async function seedInitialAdmin(): Promise<void> {
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) return;
+
+  if (await storage.hasAdminUser()) return;
+
+  const existingUser = await storage.getUserByUsername(username);
+  if (existingUser) {
+    await storage.updateUser(existingUser.id, { role: "admin" });
+    log(`Promoted existing user ${username} to admin`, "auth");
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    email: process.env.ADMIN_EMAIL || null,
+    fullName: process.env.ADMIN_FULL_NAME || null,
+    role: "admin",
+  });
+  log(`Created initial admin user ${username}`, "auth");
+}
+
+// Routes a user who must reset their password can still use
+const PASSWORD_RESET_ALLOWED_ROUTES = new Set([
+  "GET /api/user",
+  "POST /api/user/change-password",
+  "POST /api/logout",
+]);
+
+/**
+ * Middleware that holds users flagged to reset their password to the
+ * password change route until they have done so
+ */
+async function requirePasswordReset(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.path.startsWith("/api/")) return next();
+  if (PASSWORD_RESET_ALLOWED_ROUTES.has(`${req.method} ${req.path}`)) return next();
+
+  try {
+    const status = await storage.getAccountStatus(req.user.id);
+    if (status.mustResetPassword) {
+      return res.status(403).json({ message: "You must change your password before continuing", mustResetPassword: true });
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Set up authentication for the Express app
  * @param app Express application
@@ -74,6 +142,8 @@ export function setupAuth(app: Express): void {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
+  app.use(requirePasswordReset);
 
   // Configure Passport local strategy
   passport.use(
@@ -82,9 +152,14 @@ export function setupAuth(app: Express): void {
         const user = await storage.getUserByUsername(username);
         if (!user || !(await comparePasswords(password, user.password))) {
           return done(null, false);
-        } else {
-          return done(null, user);
         }
+
+        const status = await storage.getAccountStatus(user.id);
+        if (!status.active) {
+          return done(null, false);
+        }
+
+        return done(null, user);
       } catch (error) {
         return done(error);
       }
@@ -96,36 +171,96 @@ export function setupAuth(app: Express): void {
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      if (!user) return done(null, false);
+
+      // Deactivated accounts lose their existing sessions
+      const status = await storage.getAccountStatus(user.id);
+      done(null, status.active ? user : false);
     } catch (error) {
       done(error);
     }
   });
 
   // API Routes for authentication
+  // Self-registration is disabled unless explicitly enabled; accounts are
+  // normally created through admin invitations (see user-management.ts)
   app.post("/api/register", async (req, res, next) => {
+    if (process.env.ALLOW_SELF_REGISTRATION !== "true") {
+      return res.status(403).json({ message: "Registration is disabled. Ask an administrator for an invitation." });
+    }
+
     try {
-      const existingUser = await storage.getUserByUsername(req.body.username);
+      const { username, password, fullName, email } = req.body;
+      if (!username || !password) {
+        return res.status(400).json({ message: "Username and password are required" });
+      }
+
+      const existingUser = await storage.getUserByUsername(username);
       if (existingUser) {
         return res.status(400).json({ message: "Username already exists" });
       }
 
+      const passwordErrors = validatePassword(password, { username, email });
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors: passwordErrors });
+      }
+
+      // Never trust a role from the request body
       const user = await storage.createUser({
-        ...req.body,
-        password: await hashPassword(req.body.password),
+        username,
+        fullName: fullName || null,
+        email: email || null,
+        role: "counselor",
+        password: await hashPassword(password),
       });
 
       req.login(user, (err) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        res.status(201).json(sanitizeUser(user));
       });
     } catch (error) {
       next(error);
     }
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login", async (req, res, next) => {
+    const username = typeof req.body.username === "string" ? req.body.username : "";
+
+    try {
+      const lockedUntil = await getLockout(username, req.ip);
+      if (lockedUntil) {
+        const retryAfter = Math.ceil((lockedUntil.getTime() - Date.now()) / 1000);
+        res.setHeader("Retry-After", String(retryAfter));
+        return res.status(429).json({ message: "Too many failed login attempts. Try again later.", retryAfter });
+      }
+    } catch (error) {
+      return next(error);
+    }
+
+    passport.authenticate("local", async (err: Error | null, user: Express.User | false) => {
+      if (err) return next(err);
+
+      try {
+        if (!user) {
+          await recordLoginFailure(username, req.ip);
+          return res.status(401).json({ message: "Invalid username or password" });
+        }
+
+        await recordLoginSuccess(username);
+      } catch (error) {
+        return next(error);
+      }
+
+      req.login(user, async (loginErr) => {
+        if (loginErr) return next(loginErr);
+        try {
+          const status = await storage.getAccountStatus(user.id);
+          res.status(200).json({ ...sanitizeUser(user), mustResetPassword: status.mustResetPassword });
+        } catch (error) {
+          next(error);
+        }
+      });
+    })(req, res, next);
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -135,8 +270,49 @@ export function setupAuth(app: Express): void {
     });
   });
 
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+
+    try {
+      const status = await storage.getAccountStatus(req.user.id);
+      res.json({ ...sanitizeUser(req.user), mustResetPassword: status.mustResetPassword });
+    } catch (error) {
+      next(error);
+    }
   });
+
+  // Change the current user's password
+  app.post("/api/user/change-password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { currentPassword, newPassword } = req.body;
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Current and new password are required" });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await comparePasswords(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      const errors = validatePassword(newPassword, user);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+      await storage.setAccountStatus(user.id, { mustResetPassword: false });
+
+      // Sign out everywhere else
+      await storage.deleteUserSessions(user.id, req.sessionID);
+
+      res.json({ message: "Password changed" });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Session management for the current user
+  setupSessionManagement(app);
 }
\ No newline at end of file
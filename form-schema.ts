@@ -0,0 +1,539 @@
+import { z } from "zod";
+import { insertLeadSchema, InsertLead } from "@shared/schema";
+import { storage } from "./storage";
+import type { LeadAttribution } from "./attribution";
+
+export const formFieldTypes = [
+  'text',
+  'textarea',
+  'email',
+  'phone',
+  'number',
+  'date',
+  'url',
+  'select',
+  'radio',
+  'checkbox',
+] as const;
+
+// Lead columns a form field can fill; answers to other fields go into the lead's custom attributes
+export const leadFieldColumns = [
+  'fullName',
+  'email',
+  'phone',
+  'age',
+  'education',
+  'college',
+  'state',
+  'city',
+  'source',
+] as const;
+
+// Field types whose answers must be one of the field's options
+const CHOICE_TYPES = ['select', 'radio', 'checkbox'];
+
+// Validation patterns run on public input, so both the pattern and the
+// answers it is tested against are kept short
+const MAX_PATTERN_LENGTH = 200;
+const MAX_PATTERN_INPUT_LENGTH = 1000;
+
+// A quantified group that itself contains a quantifier, e.g. (a+)+, can take
+// exponential time to fail
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)\s*(?:[*+]|\{\d*,?\d*\})/;
+
+// Lead columns a submission cannot be stored without. The source is
+// submission metadata and may be passed alongside the answers instead.
+const requiredLeadColumns = (() => {
+  const parsed = insertLeadSchema.safeParse({});
+  const missing = new Set(parsed.success ? [] : parsed.error.errors.map(issue => String(issue.path[0])));
+  return leadFieldColumns.filter(column => column !== 'source' && missing.has(column));
+})();
+
+const fieldOptionSchema = z.object({
+  value: z.string().min(1),
+  label: z.string().min(1),
+});
+
+export const conditionOperators = [
+  'equals',
+  'notEquals',
+  'in',
+  'notIn',
+  'contains',
+  'answered',
+  'notAnswered',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+] as const;
+
+export type FieldCondition =
+  | { field: string; operator: typeof conditionOperators[number]; value?: string | number | boolean | Array<string | number> }
+  | { all: FieldCondition[] }
+  | { any: FieldCondition[] }
+  | { not: FieldCondition };
+
+// A comparison against an earlier answer, or a combination of conditions
+export const fieldConditionSchema: z.ZodType<FieldCondition> = z.lazy(() => z.union([
+  z.object({
+    field: z.string().min(1),
+    operator: z.enum(conditionOperators),
+    value: z.union([z.string(), z.number(), z.boolean(), z.array(z.union([z.string(), z.number()]))]).optional(),
+  }),
+  z.object({ all: z.array(fieldConditionSchema).min(1) }),
+  z.object({ any: z.array(fieldConditionSchema).min(1) }),
+  z.object({ not: fieldConditionSchema }),
+]));
+
+// Hidden form field that people never see and bots tend to fill in. Field keys
+// start with a letter, so the default cannot clash with one.
+export const HONEYPOT_FIELD = process.env.FORM_HONEYPOT_FIELD || "_hp";
+
+// Submission body keys used by the public form endpoints themselves, which
+// would be mistaken for answers if a field took them
+const RESERVED_FIELD_KEYS = new Set([HONEYPOT_FIELD, "fillToken", "draftToken", "captchaToken"]);
+
+export const formFieldSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Keys must start with a letter and contain only letters, digits and underscores"),
+  label: z.string().min(1),
+  type: z.enum(formFieldTypes),
+  required: z.boolean().default(false),
+  placeholder: z.string().optional(),
+  helpText: z.string().optional(),
+  options: z.array(fieldOptionSchema).optional(),
+  validation: z.object({
+    pattern: z.string().max(MAX_PATTERN_LENGTH).refine(pattern => {
+      try {
+        new RegExp(pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Invalid regular expression").refine(
+      pattern => !NESTED_QUANTIFIER.test(pattern),
+      "Patterns cannot repeat a group that itself repeats, e.g. (a+)+",
+    ).optional(),
+    message: z.string().optional(),
+  }).optional(),
+  mapTo: z.enum(leadFieldColumns).optional(),
+  // Page the field appears on, starting at 1
+  page: z.number().int().min(1).default(1),
+  // The field is only shown, required and accepted when this holds
+  showIf: fieldConditionSchema.optional(),
+});
+
+export type FormField = z.infer<typeof formFieldSchema>;
+
+export const formPageSchema = z.object({
+  title: z.string().optional(),
+  description: z.string().optional(),
+  // The page is skipped entirely unless this holds
+  showIf: fieldConditionSchema.optional(),
+  // After this page, jump to the first rule's target page whose condition holds
+  skipRules: z.array(z.object({
+    when: fieldConditionSchema,
+    goToPage: z.number().int().min(2),
+  })).optional(),
+});
+
+export type FormPage = z.infer<typeof formPageSchema>;
+
+export interface FormDefinition {
+  fields: FormField[];
+  pages: FormPage[];
+}
+
+/**
+ * List the field keys a condition refers to
+ * @param condition The condition
+ * @returns Referenced field keys
+ */
+function conditionFields(condition: FieldCondition): string[] {
+  if ('all' in condition) return condition.all.flatMap(conditionFields);
+  if ('any' in condition) return condition.any.flatMap(conditionFields);
+  if ('not' in condition) return conditionFields(condition.not);
+  return [condition.field];
+}
+
+/**
+ * List the pages a respondent may not see: pages with a condition and pages a
+ * skip rule can jump over
+ * @param pages The form's pages
+ * @returns Page numbers, starting at 1
+ */
+function conditionalPages(pages: FormPage[]): Set<number> {
+  const conditional = new Set<number>();
+  pages.forEach((page, i) => {
+    if (page.showIf) conditional.add(i + 1);
+    for (const rule of page.skipRules ?? []) {
+      for (let skipped = i + 2; skipped < rule.goToPage; skipped++) {
+        conditional.add(skipped);
+      }
+    }
+  });
+  return conditional;
+}
+
+/**
+ * Ordered fields with unique keys and at most one field per lead column, in page
+ * order. Conditions may only refer to fields that come before them, so a form
+ * can always be evaluated front to back. Every lead column a lead needs must be
+ * filled by a required field every respondent sees.
+ */
+export const formDefinitionSchema = z.object({
+  fields: z.array(formFieldSchema),
+  pages: z.array(formPageSchema).default([]),
+}).superRefine(({ fields, pages }, ctx) => {
+  const keys = new Map<string, number>();
+  const columns = new Set<string>();
+  const pageCount = Math.max(pages.length, ...fields.map(field => field.page), 1);
+
+  fields.forEach((field, i) => {
+    if (i > 0 && field.page < fields[i - 1].page) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', i, 'page'], message: "Fields must be ordered by page" });
+    }
+
+    for (const key of field.showIf ? conditionFields(field.showIf) : []) {
+      if (!keys.has(key)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', i, 'showIf'], message: `Condition refers to "${key}", which is not an earlier field` });
+      }
+    }
+
+    if (keys.has(field.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', i, 'key'], message: `Duplicate field key "${field.key}"` });
+    }
+    if (RESERVED_FIELD_KEYS.has(field.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', i, 'key'], message: `"${field.key}" is reserved and cannot be used as a field key` });
+    }
+    keys.set(field.key, field.page);
+
+    if (field.mapTo) {
+      if (columns.has(field.mapTo)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', i, 'mapTo'], message: `More than one field maps to "${field.mapTo}"` });
+      }
+      columns.add(field.mapTo);
+    }
+
+    if (CHOICE_TYPES.includes(field.type) && (!field.options || field.options.length === 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', i, 'options'], message: `${field.type} fields need at least one option` });
+    }
+  });
+
+  pages.forEach((page, i) => {
+    const pageNumber = i + 1;
+
+    for (const key of page.showIf ? conditionFields(page.showIf) : []) {
+      const fieldPage = keys.get(key);
+      if (fieldPage === undefined || fieldPage >= pageNumber) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pages', i, 'showIf'], message: `Condition refers to "${key}", which is not on an earlier page` });
+      }
+    }
+
+    page.skipRules?.forEach((rule, j) => {
+      if (rule.goToPage <= pageNumber || rule.goToPage > pageCount) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pages', i, 'skipRules', j, 'goToPage'], message: `Skip rules must go to a later page between ${pageNumber + 1} and ${pageCount}` });
+      }
+      for (const key of conditionFields(rule.when)) {
+        const fieldPage = keys.get(key);
+        if (fieldPage === undefined || fieldPage > pageNumber) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['pages', i, 'skipRules', j, 'when'], message: `Condition refers to "${key}", which is not on this or an earlier page` });
+        }
+      }
+    });
+  });
+
+  // A form without fields takes the standard lead fields
+  if (fields.length === 0) return;
+
+  const hiddenPages = conditionalPages(pages);
+  for (const column of requiredLeadColumns) {
+    const index = fields.findIndex(field => field.mapTo === column);
+    const field = fields[index];
+    if (!field) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields'], message: `A field must map to "${column}"` });
+    } else if (!field.required || field.showIf || hiddenPages.has(field.page)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fields', index], message: `The field mapped to "${column}" must be required and always shown` });
+    }
+  }
+});
+
+// A validated lead submission ready to be stored
+export interface LeadSubmission {
+  formId: number | null;
+  formVersionId: number | null;
+  lead: InsertLead;
+  customAttributes: Record<string, unknown> | null;
+  // Where the visitor came from, resolved from UTM parameters and click identifiers
+  attribution?: LeadAttribution | null;
+}
+
+export type LeadSubmissionResult =
+  | ({ success: true } & LeadSubmission)
+  | { success: false; status: number; message?: string; errors?: z.ZodIssue[] };
+
+/**
+ * Build the validator for a single field's answer
+ * @param field The field definition
+ * @returns Zod schema for the answer
+ */
+function fieldValidator(field: FormField): z.ZodTypeAny {
+  const pattern = field.validation?.pattern ? new RegExp(field.validation.pattern) : null;
+  const patternMessage = field.validation?.message || `${field.label} is not in the expected format`;
+  // Overlong answers are rejected without running the pattern
+  const withPattern = (schema: z.ZodString): z.ZodTypeAny => pattern
+    ? schema.refine(value => value.length <= MAX_PATTERN_INPUT_LENGTH && pattern.test(value), patternMessage)
+    : schema;
+
+  const optionValues = (field.options ?? []).map(option => option.value) as [string, ...string[]];
+
+  let validator: z.ZodTypeAny;
+  switch (field.type) {
+    case 'email':
+      validator = withPattern(z.string().trim().email(`${field.label} must be a valid email`));
+      break;
+    case 'url':
+      validator = withPattern(z.string().trim().url(`${field.label} must be a valid URL`));
+      break;
+    case 'number':
+      validator = z.coerce.number({ invalid_type_error: `${field.label} must be a number` });
+      break;
+    case 'date':
+      validator = z.coerce.date({ invalid_type_error: `${field.label} must be a date` })
+        .transform(date => date.toISOString().slice(0, 10));
+      break;
+    case 'select':
+    case 'radio':
+      validator = z.enum(optionValues);
+      break;
+    case 'checkbox':
+      validator = z.array(z.enum(optionValues))
+        .min(field.required ? 1 : 0, `${field.label} is required`);
+      break;
+    case 'phone':
+    case 'text':
+    case 'textarea':
+    default:
+      validator = withPattern(z.string().trim().min(field.required ? 1 : 0, `${field.label} is required`));
+      break;
+  }
+
+  // Blank answers to optional fields are treated as not answered
+  const blankToUndefined = (value: unknown) => value === '' || value === null ? undefined : value;
+  return z.preprocess(blankToUndefined, field.required ? validator : validator.optional());
+}
+
+/**
+ * Evaluate a condition against the answers given so far. Answers to hidden or
+ * unanswered fields count as not answered.
+ * @param condition The condition
+ * @param answers Validated answers keyed by field key
+ * @returns Whether the condition holds
+ */
+export function evaluateCondition(condition: FieldCondition, answers: Record<string, unknown>): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, answers));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, answers));
+  if ('not' in condition) return !evaluateCondition(condition.not, answers);
+
+  const answer = answers[condition.field];
+  const answered = answer !== undefined && !(Array.isArray(answer) && answer.length === 0);
+  const expected = condition.value;
+  const expectedList = Array.isArray(expected) ? expected.map(String) : expected === undefined ? [] : [String(expected)];
+  const answerList = Array.isArray(answer) ? answer.map(String) : answered ? [String(answer)] : [];
+
+  switch (condition.operator) {
+    case 'answered':
+      return answered;
+    case 'notAnswered':
+      return !answered;
+    case 'equals':
+      return answered && answerList.length === 1 && answerList[0] === String(expected);
+    case 'notEquals':
+      return !answered || answerList.length !== 1 || answerList[0] !== String(expected);
+    case 'in':
+      return answerList.some(value => expectedList.includes(value));
+    case 'notIn':
+      return !answerList.some(value => expectedList.includes(value));
+    case 'contains':
+      return answerList.includes(String(expected));
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const a = Number(answer);
+      const b = Number(expected);
+      if (!answered || isNaN(a) || isNaN(b)) return false;
+      if (condition.operator === 'gt') return a > b;
+      if (condition.operator === 'gte') return a >= b;
+      if (condition.operator === 'lt') return a < b;
+      return a <= b;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Walk a form page by page, validating the answers to each visible field.
+ * Pages whose condition fails and pages jumped over by skip rules are skipped,
+ * and fields whose condition fails are hidden. Hidden fields are neither
+ * required nor accepted: any value submitted for them is dropped.
+ * @param definition The form's fields and pages
+ * @param body The submitted answers, keyed by field key
+ * @returns Validated answers, the pages and fields that were shown, and any validation issues
+ */
+export function evaluateForm(definition: FormDefinition, body: Record<string, unknown>): {
+  answers: Record<string, unknown>;
+  visiblePages: number[];
+  visibleFields: string[];
+  errors: z.ZodIssue[];
+} {
+  const { fields, pages } = definition;
+  const pageCount = Math.max(pages.length, ...fields.map(field => field.page ?? 1), 1);
+
+  const answers: Record<string, unknown> = {};
+  const visiblePages: number[] = [];
+  const visibleFields: string[] = [];
+  const errors: z.ZodIssue[] = [];
+
+  let pageNumber = 1;
+  while (pageNumber <= pageCount) {
+    const page = pages[pageNumber - 1];
+    if (page?.showIf && !evaluateCondition(page.showIf, answers)) {
+      pageNumber++;
+      continue;
+    }
+    visiblePages.push(pageNumber);
+
+    for (const field of fields.filter(f => (f.page ?? 1) === pageNumber)) {
+      if (field.showIf && !evaluateCondition(field.showIf, answers)) continue;
+      visibleFields.push(field.key);
+
+      const parsed = fieldValidator(field).safeParse(body[field.key]);
+      if (!parsed.success) {
+        errors.push(...parsed.error.errors.map(issue => ({ ...issue, path: [field.key, ...issue.path] })));
+      } else if (parsed.data !== undefined) {
+        answers[field.key] = parsed.data;
+      }
+    }
+
+    const skip = page?.skipRules?.find(rule => evaluateCondition(rule.when, answers));
+    pageNumber = skip && skip.goToPage > pageNumber ? skip.goToPage : pageNumber + 1;
+  }
+
+  return { answers, visiblePages, visibleFields, errors };
+}
+
+/**
+ * Validate a submission against a form and split the answers to visible fields
+ * into lead columns and custom attributes
+ * @param definition The form's fields and pages
+ * @param body The submitted answers, keyed by field key
+ * @returns The validated answers, or the validation issues
+ */
+export function parseFormAnswers(definition: FormDefinition, body: Record<string, unknown>):
+  | { success: true; lead: Record<string, unknown>; customAttributes: Record<string, unknown> }
+  | { success: false; errors: z.ZodIssue[] } {
+  const { answers, errors } = evaluateForm(definition, body);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  return { success: true, ...splitAnswers(definition.fields, answers) };
+}
+
+/**
+ * Convert an answer for a lead column. Lead columns hold text, so numbers
+ * and lists of choices are stored as strings.
+ * @param value The validated answer
+ * @returns The value to store in the column
+ */
+function toLeadColumnValue(value: unknown): unknown {
+  if (typeof value === 'number') return String(value);
+  if (Array.isArray(value)) return value.join(', ');
+  return value;
+}
+
+/**
+ * Split validated answers into lead columns and custom attributes
+ * @param fields The form's fields
+ * @param answers Validated answers keyed by field key
+ * @returns Lead column values and custom attributes
+ */
+export function splitAnswers(fields: FormField[], answers: Record<string, unknown>): {
+  lead: Record<string, unknown>;
+  customAttributes: Record<string, unknown>;
+} {
+  const lead: Record<string, unknown> = {};
+  const customAttributes: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = answers[field.key];
+    if (value === undefined) continue;
+
+    if (field.mapTo) {
+      lead[field.mapTo] = toLeadColumnValue(value);
+    } else {
+      customAttributes[field.key] = value;
+    }
+  }
+
+  return { lead, customAttributes };
+}
+
+/**
+ * Validate a lead submission. Submissions through a form with a published
+ * version are validated against the live version's fields; anything else uses
+ * the standard lead schema.
+ * @param formId The submitting form, if any
+ * @param body The request body
+ * @returns The lead to store and its custom attributes, or why it was rejected
+ */
+export async function parseLeadSubmission(formId: number | null, body: Record<string, unknown>): Promise<LeadSubmissionResult> {
+  if (formId === null) {
+    const parsed = insertLeadSchema.safeParse(body);
+    return parsed.success
+      ? { success: true, formId, formVersionId: null, lead: parsed.data, customAttributes: null }
+      : { success: false, status: 400, errors: parsed.error.errors };
+  }
+
+  const form = await storage.getFormById(formId);
+  if (!form) {
+    return { success: false, status: 404, message: "Form not found" };
+  }
+  if (!form.active) {
+    return { success: false, status: 400, message: "Form is not accepting submissions" };
+  }
+
+  const formVersion = await storage.getLiveFormVersion(formId);
+  if (!formVersion || formVersion.fields.length === 0) {
+    const parsed = insertLeadSchema.safeParse(body);
+    return parsed.success
+      ? { success: true, formId, formVersionId: formVersion?.id ?? null, lead: parsed.data, customAttributes: null }
+      : { success: false, status: 400, errors: parsed.error.errors };
+  }
+
+  const answers = parseFormAnswers({ fields: formVersion.fields, pages: formVersion.pages ?? [] }, body);
+  if (!answers.success) {
+    return { success: false, status: 400, errors: answers.errors };
+  }
+
+  // The source is submission metadata rather than a question, so it may be
+  // passed alongside the answers when no field maps to it
+  const lead = { ...answers.lead };
+  if (lead.source === undefined && typeof body.source === 'string') {
+    lead.source = body.source;
+  }
+
+  const parsed = insertLeadSchema.safeParse(lead);
+  if (!parsed.success) {
+    return { success: false, status: 400, errors: parsed.error.errors };
+  }
+
+  return {
+    success: true,
+    formId,
+    formVersionId: formVersion.id,
+    lead: parsed.data,
+    customAttributes: Object.keys(answers.customAttributes).length > 0 ? answers.customAttributes : null,
+  };
+}
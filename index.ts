@@ -2,6 +2,8 @@ import express, { Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { log } from "./vite";
 import { db } from "./db";
+import { ensureSchema } from "./migrate";
+import { seedInitialAdmin } from "./auth";
 
 // Create Express application
 const app = express();
@@ -21,6 +23,10 @@ async function start() {
       throw new Error(`Database connection failed: ${error}`);
     }
 
+    // Create server-owned tables and bootstrap the first admin
+    await ensureSchema();
+    await seedInitialAdmin();
+
     // Set up routes
     const server = await registerRoutes(app);
 
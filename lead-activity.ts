@@ -0,0 +1,286 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requirePermission, hasPermission } from "./permissions";
+
+export const communicationTypes = ["call", "whatsapp", "note"] as const;
+export const callOutcomes = ["connected", "no_answer", "busy", "voicemail", "wrong_number", "callback_requested"] as const;
+
+// Logged times may run slightly ahead of the server clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const directionSchema = z.enum(["inbound", "outbound"]).default("outbound");
+const bodySchema = z.string().trim().max(5000);
+
+const createCommunicationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("call"),
+    direction: directionSchema,
+    outcome: z.enum(callOutcomes),
+    durationSeconds: z.number().int().min(0).max(24 * 60 * 60).default(0),
+    body: bodySchema.optional(),
+    occurredAt: z.coerce.date().optional(),
+  }),
+  z.object({
+    type: z.literal("whatsapp"),
+    direction: directionSchema,
+    body: bodySchema.min(1),
+    occurredAt: z.coerce.date().optional(),
+  }),
+  z.object({
+    type: z.literal("note"),
+    body: bodySchema.min(1),
+    occurredAt: z.coerce.date().optional(),
+  }),
+]);
+
+export type TimelineEventType =
+  | "created"
+  | "submission"
+  | "merge"
+  | "status_change"
+  | "assignment"
+  | "score_change"
+  | "task"
+  | typeof communicationTypes[number];
+
+export interface TimelineEvent {
+  type: TimelineEventType;
+  at: Date;
+  // The user behind the event, if a person made it
+  userId: number | null;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Build a lead's timeline from its submissions, status changes, assignments,
+ * score changes, communications and tasks
+ * @param leadId The lead
+ * @returns Events, oldest first, or null if the lead does not exist
+ */
+export async function buildLeadTimeline(leadId: number): Promise<TimelineEvent[] | null> {
+  const lead = await storage.getLeadById(leadId);
+  if (!lead) return null;
+
+  const [details, touchpoints, statusHistory, assignments, scoreHistory, communications, tasks] = await Promise.all([
+    storage.getLeadDetails(leadId),
+    storage.getLeadTouchpoints(leadId),
+    storage.getLeadStatusHistory(leadId),
+    storage.getLeadAssignmentHistory(leadId),
+    storage.getLeadScoreHistory(leadId),
+    storage.getLeadCommunications(leadId),
+    storage.getTasks({ leadId, perPage: 500 }),
+  ]);
+
+  const events: TimelineEvent[] = [{
+    type: "created",
+    at: lead.createdAt ?? new Date(0),
+    userId: null,
+    data: { source: lead.source, formId: details?.formId ?? null },
+  }];
+
+  for (const touchpoint of touchpoints) {
+    events.push({
+      type: touchpoint.type === "merge" ? "merge" : "submission",
+      at: touchpoint.createdAt,
+      userId: touchpoint.type === "merge" ? (touchpoint.payload.mergedBy as number | null) ?? null : null,
+      data: { source: touchpoint.source, formId: touchpoint.formId, payload: touchpoint.payload },
+    });
+  }
+
+  for (const change of statusHistory) {
+    events.push({
+      type: "status_change",
+      at: change.changedAt,
+      userId: change.changedBy,
+      data: { from: change.fromStatus, to: change.toStatus, fields: change.fields, note: change.note },
+    });
+  }
+
+  for (const assignment of assignments) {
+    events.push({
+      type: "assignment",
+      at: assignment.assignedAt,
+      userId: assignment.assignedBy,
+      data: { ownerId: assignment.ownerId, previousOwnerId: assignment.previousOwnerId, ruleId: assignment.ruleId },
+    });
+  }
+
+  // Score history is newest first; compare each snapshot with the one before it
+  scoreHistory.forEach((snapshot, index) => {
+    const previous = scoreHistory[index + 1];
+    events.push({
+      type: "score_change",
+      at: snapshot.scoredAt,
+      userId: null,
+      data: {
+        score: snapshot.score,
+        label: snapshot.label,
+        previousScore: previous?.score ?? null,
+        previousLabel: previous?.label ?? null,
+      },
+    });
+  });
+
+  for (const communication of communications) {
+    events.push({
+      type: communication.type as TimelineEventType,
+      at: communication.occurredAt,
+      userId: communication.createdBy,
+      data: {
+        id: communication.id,
+        direction: communication.direction,
+        outcome: communication.outcome,
+        durationSeconds: communication.durationSeconds,
+        body: communication.body,
+      },
+    });
+  }
+
+  // Tasks appear when they were created, with their current state
+  for (const task of tasks.data) {
+    events.push({
+      type: "task",
+      at: task.createdAt,
+      userId: task.createdBy,
+      data: {
+        id: task.id,
+        type: task.type,
+        title: task.title,
+        dueAt: task.dueAt,
+        assigneeId: task.assigneeId,
+        status: task.status,
+        overdue: task.overdueAt !== null && task.status === "open",
+        completedAt: task.completedAt,
+      },
+    });
+  }
+
+  return events.sort((a, b) => a.at.getTime() - b.at.getTime());
+}
+
+/**
+ * Set up lead communication logging and the lead timeline
+ * @param app Express application
+ */
+export function setupLeadActivity(app: Express): void {
+  // Calls, WhatsApp conversations and notes logged against a lead, newest first
+  app.get("/api/admin/leads/:id/communications", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const type = req.query.type as string | undefined;
+      if (type !== undefined && !(communicationTypes as readonly string[]).includes(type)) {
+        return res.status(400).json({ message: `type must be one of: ${communicationTypes.join(", ")}` });
+      }
+
+      const lead = await storage.getLeadById(id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const communications = await storage.getLeadCommunications(id, type);
+      res.json(communications);
+    } catch (error) {
+      console.error("Error fetching lead communications:", error);
+      res.status(500).json({ message: "Error fetching lead communications" });
+    }
+  });
+
+  // Log a call, WhatsApp conversation or note
+  app.post("/api/admin/leads/:id/communications", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const parsed = createCommunicationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const occurredAt = parsed.data.occurredAt ?? new Date();
+      if (occurredAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+        return res.status(400).json({ message: "occurredAt cannot be in the future" });
+      }
+
+      const lead = await storage.getLeadById(id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const communication = await storage.createLeadCommunication({
+        leadId: id,
+        type: parsed.data.type,
+        direction: parsed.data.type === "note" ? null : parsed.data.direction,
+        outcome: parsed.data.type === "call" ? parsed.data.outcome : null,
+        durationSeconds: parsed.data.type === "call" ? parsed.data.durationSeconds : null,
+        body: parsed.data.body || null,
+        occurredAt,
+        createdBy: req.user?.id ?? null,
+      });
+
+      res.status(201).json(communication);
+    } catch (error) {
+      console.error("Error logging lead communication:", error);
+      res.status(500).json({ message: "Error logging lead communication" });
+    }
+  });
+
+  // Remove a logged communication. Only its author or a user who can delete leads may.
+  app.delete("/api/admin/leads/:id/communications/:communicationId", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const communicationId = parseInt(req.params.communicationId);
+      if (isNaN(id) || isNaN(communicationId)) {
+        return res.status(400).json({ message: "Invalid ID" });
+      }
+
+      const communication = await storage.getLeadCommunicationById(communicationId);
+      if (!communication || communication.leadId !== id) {
+        return res.status(404).json({ message: "Communication not found" });
+      }
+
+      const isAuthor = req.user !== undefined && communication.createdBy === req.user.id;
+      if (!isAuthor && !hasPermission(req.user?.role, "leads", "delete")) {
+        return res.status(403).json({ message: "Only the author can delete this entry" });
+      }
+
+      await storage.deleteLeadCommunication(communicationId);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting lead communication:", error);
+      res.status(500).json({ message: "Error deleting lead communication" });
+    }
+  });
+
+  // Everything that has happened to a lead in one chronological list
+  app.get("/api/admin/leads/:id/timeline", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const timeline = await buildLeadTimeline(id);
+      if (!timeline) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      // Optionally narrow to some event types, e.g. types=call,note
+      const types = typeof req.query.types === "string"
+        ? new Set(req.query.types.split(",").map(type => type.trim()).filter(Boolean))
+        : null;
+      const events = types ? timeline.filter(event => types.has(event.type)) : timeline;
+
+      res.json(req.query.order === "desc" ? events.reverse() : events);
+    } catch (error) {
+      console.error("Error fetching lead timeline:", error);
+      res.status(500).json({ message: "Error fetching lead timeline" });
+    }
+  });
+}
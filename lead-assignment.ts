@@ -0,0 +1,317 @@
+import type { Express } from "express";
+import { z } from "zod";
+import type { Lead } from "@shared/schema";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import type { ScoreLabel } from "./types";
+import type { AssignmentRule } from "./schema";
+
+export const assignmentStrategies = ["round_robin", "weighted"] as const;
+export type AssignmentStrategy = typeof assignmentStrategies[number];
+
+// A rule matches a lead when every condition it sets matches. List conditions
+// match any of their values, ignoring case.
+export interface AssignmentConditions {
+  scoreLabels?: ScoreLabel[];
+  states?: string[];
+  languages?: string[];
+  sources?: string[];
+  formIds?: number[];
+}
+
+// Weight is the member's share of a weighted rule's leads, e.g. 2 takes twice as many as 1
+export interface AssignmentMember {
+  userId: number;
+  weight: number;
+}
+
+// Language is not a lead column; it is read from this custom form answer
+const LANGUAGE_ATTRIBUTE = "language";
+
+// Weighted rules balance the leads each member was assigned over this many days
+const WEIGHTED_WINDOW_DAYS = 7;
+
+const assignmentConditionsSchema = z.object({
+  scoreLabels: z.array(z.enum(["Hot", "Warm", "Cold"])).min(1).optional(),
+  states: z.array(z.string().trim().min(1)).min(1).optional(),
+  languages: z.array(z.string().trim().min(1)).min(1).optional(),
+  sources: z.array(z.string().trim().min(1)).min(1).optional(),
+  formIds: z.array(z.number().int().positive()).min(1).optional(),
+});
+
+const assignmentMembersSchema = z.array(z.object({
+  userId: z.number().int().positive(),
+  weight: z.number().positive().default(1),
+})).min(1).refine(
+  members => new Set(members.map(member => member.userId)).size === members.length,
+  "Each user can only be listed once",
+);
+
+const createRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  position: z.number().int().min(0).optional(),
+  active: z.boolean().default(true),
+  conditions: assignmentConditionsSchema.default({}),
+  strategy: z.enum(assignmentStrategies).default("round_robin"),
+  members: assignmentMembersSchema,
+});
+
+const updateRuleSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  position: z.number().int().min(0).optional(),
+  active: z.boolean().optional(),
+  conditions: assignmentConditionsSchema.optional(),
+  strategy: z.enum(assignmentStrategies).optional(),
+  members: assignmentMembersSchema.optional(),
+});
+
+const assignLeadSchema = z.object({
+  // null leaves the lead unassigned
+  ownerId: z.number().int().positive().nullable(),
+});
+
+const bulkAssignSchema = z.object({
+  leadIds: z.array(z.number().int().positive()).min(1).max(1000).optional(),
+  // Move every lead owned by this user instead of listing them
+  fromOwnerId: z.number().int().positive().optional(),
+  ownerId: z.number().int().positive().nullable(),
+}).refine(
+  data => (data.leadIds === undefined) !== (data.fromOwnerId === undefined),
+  "Provide either leadIds or fromOwnerId",
+);
+
+/**
+ * Check whether a value is in a list, ignoring case
+ * @param values The list
+ * @param value The value
+ * @returns True if the list contains the value
+ */
+function includesIgnoreCase(values: string[], value: unknown): boolean {
+  if (typeof value !== "string") return false;
+  const normalized = value.trim().toLowerCase();
+  return values.some(candidate => candidate.trim().toLowerCase() === normalized);
+}
+
+/**
+ * Check whether a new lead meets a rule's conditions
+ * @param conditions The rule's conditions
+ * @param lead The scored lead
+ * @param details The lead's form and custom answers
+ * @returns True if every condition the rule sets matches
+ */
+function conditionsMatch(
+  conditions: AssignmentConditions,
+  lead: Lead & { scoreLabel: string },
+  details: { formId: number | null; customAttributes: Record<string, unknown> | null },
+): boolean {
+  if (conditions.scoreLabels && !conditions.scoreLabels.includes(lead.scoreLabel as ScoreLabel)) return false;
+  if (conditions.states && !includesIgnoreCase(conditions.states, lead.state)) return false;
+  if (conditions.sources && !includesIgnoreCase(conditions.sources, lead.source)) return false;
+  if (conditions.formIds && (details.formId === null || !conditions.formIds.includes(details.formId))) return false;
+  if (conditions.languages && !includesIgnoreCase(conditions.languages, details.customAttributes?.[LANGUAGE_ATTRIBUTE])) return false;
+  return true;
+}
+
+/**
+ * Pick the member of a rule who gets the next lead
+ * @param rule The matching rule
+ * @returns User ID, or null if none of the rule's members can take leads
+ */
+async function pickMember(rule: AssignmentRule): Promise<number | null> {
+  // Deactivated counselors are skipped
+  const activeUserIds = await storage.getActiveUserIds(rule.members.map(member => member.userId));
+  const members = rule.members.filter(member => activeUserIds.has(member.userId));
+  if (members.length === 0) return null;
+
+  if (rule.strategy === "weighted") {
+    // The member furthest below their share of recent leads goes next
+    const since = new Date(Date.now() - WEIGHTED_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    const counts = await storage.getRecentAssignmentCounts(members.map(member => member.userId), since);
+    const load = (member: AssignmentMember) => (counts.get(member.userId) ?? 0) / member.weight;
+    return members.reduce((best, member) =>
+      load(member) < load(best) || (load(member) === load(best) && member.weight > best.weight) ? member : best
+    ).userId;
+  }
+
+  const cursor = await storage.advanceAssignmentRuleCursor(rule.id);
+  return members[cursor % members.length].userId;
+}
+
+/**
+ * Give a new lead an owner using the first active rule that matches it
+ * @param lead The new lead, already scored
+ * @param details The form the lead came through and its custom answers
+ * @returns The owner's user ID, or null if no rule assigned the lead
+ */
+export async function assignNewLead(
+  lead: Lead & { scoreLabel: string },
+  details: { formId: number | null; customAttributes: Record<string, unknown> | null },
+): Promise<number | null> {
+  const rules = await storage.getAssignmentRules();
+
+  for (const rule of rules) {
+    if (!rule.active || !conditionsMatch(rule.conditions, lead, details)) continue;
+
+    // A rule with nobody available falls through to the next one
+    const ownerId = await pickMember(rule);
+    if (ownerId !== null) {
+      await storage.assignLeads([lead.id], ownerId, { assignedBy: null, ruleId: rule.id });
+      return ownerId;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that a user can own leads
+ * @param userId The user
+ * @returns True if the user exists and is active
+ */
+async function canOwnLeads(userId: number): Promise<boolean> {
+  const activeUserIds = await storage.getActiveUserIds([userId]);
+  return activeUserIds.has(userId);
+}
+
+/**
+ * Set up assignment rule management and manual lead assignment routes
+ * @param app Express application
+ */
+export function setupLeadAssignment(app: Express): void {
+  // List assignment rules in the order they are tried
+  app.get("/api/admin/assignment-rules", requirePermission("assignment", "read"), async (req, res) => {
+    try {
+      const rules = await storage.getAssignmentRules();
+      res.json(rules);
+    } catch (error) {
+      console.error("Error fetching assignment rules:", error);
+      res.status(500).json({ message: "Error fetching assignment rules" });
+    }
+  });
+
+  // Create a rule, tried after existing rules unless given a position
+  app.post("/api/admin/assignment-rules", requirePermission("assignment", "create"), async (req, res) => {
+    try {
+      const parsed = createRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const rules = await storage.getAssignmentRules();
+      const position = parsed.data.position ?? Math.max(0, ...rules.map(rule => rule.position)) + 1;
+      const rule = await storage.createAssignmentRule({
+        ...parsed.data,
+        position,
+        createdBy: req.user?.id ?? null,
+      });
+
+      res.status(201).json(rule);
+    } catch (error) {
+      console.error("Error creating assignment rule:", error);
+      res.status(500).json({ message: "Error creating assignment rule" });
+    }
+  });
+
+  // Update a rule
+  app.patch("/api/admin/assignment-rules/:id", requirePermission("assignment", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid rule ID" });
+      }
+
+      const parsed = updateRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const rule = await storage.updateAssignmentRule(id, parsed.data);
+      if (!rule) {
+        return res.status(404).json({ message: "Assignment rule not found" });
+      }
+
+      res.json(rule);
+    } catch (error) {
+      console.error("Error updating assignment rule:", error);
+      res.status(500).json({ message: "Error updating assignment rule" });
+    }
+  });
+
+  // Delete a rule; leads it assigned keep their owners
+  app.delete("/api/admin/assignment-rules/:id", requirePermission("assignment", "delete"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid rule ID" });
+      }
+
+      const success = await storage.deleteAssignmentRule(id);
+      if (!success) {
+        return res.status(404).json({ message: "Assignment rule not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting assignment rule:", error);
+      res.status(500).json({ message: "Error deleting assignment rule" });
+    }
+  });
+
+  // Reassign several leads, listed or all of one counselor's
+  app.post("/api/admin/leads/assign", requirePermission("assignment", "update"), async (req, res) => {
+    try {
+      const parsed = bulkAssignSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const { leadIds, fromOwnerId, ownerId } = parsed.data;
+      if (ownerId !== null && !(await canOwnLeads(ownerId))) {
+        return res.status(400).json({ message: "The new owner must be an active user" });
+      }
+
+      const ids = leadIds ?? await storage.getLeadIdsByOwner(fromOwnerId!);
+      const assigned = await storage.assignLeads(ids, ownerId, { assignedBy: req.user?.id ?? null, ruleId: null });
+      const assignedIds = new Set(assigned);
+
+      res.json({
+        ownerId,
+        assigned: assigned.length,
+        notFound: ids.filter(id => !assignedIds.has(id)),
+      });
+    } catch (error) {
+      console.error("Error reassigning leads:", error);
+      res.status(500).json({ message: "Error reassigning leads" });
+    }
+  });
+
+  // Reassign a single lead
+  app.post("/api/admin/leads/:id/assign", requirePermission("assignment", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const parsed = assignLeadSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const { ownerId } = parsed.data;
+      if (ownerId !== null && !(await canOwnLeads(ownerId))) {
+        return res.status(400).json({ message: "The new owner must be an active user" });
+      }
+
+      const [assigned] = await storage.assignLeads([id], ownerId, { assignedBy: req.user?.id ?? null, ruleId: null });
+      if (assigned === undefined) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      res.json({ leadId: id, ownerId });
+    } catch (error) {
+      console.error("Error reassigning lead:", error);
+      res.status(500).json({ message: "Error reassigning lead" });
+    }
+  });
+}
@@ -0,0 +1,204 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { checkTransition } from "./pipeline";
+import { leadFilterParamsSchema } from "./lead-filters";
+import type { Resource, Action } from "./permissions";
+import type { LeadBulkAction, LeadBulkResult } from "./types";
+import type { LeadBulkJob } from "./schema";
+
+// Most leads one bulk action can change, listed or matched by filters
+export const MAX_BULK_LEADS = 1000;
+
+// How long a bulk deletion can be undone
+const UNDO_WINDOW_MS = 30 * 60 * 1000;
+
+const tagSchema = z.string().trim().min(1).max(50).transform(tag => tag.toLowerCase());
+
+const bulkActionTypeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("status"),
+    status: z.string().min(1),
+    // Values for the transition's required fields, recorded on every lead moved
+    fields: z.record(z.string(), z.unknown()).default({}),
+    note: z.string().trim().max(2000).optional(),
+  }),
+  z.object({
+    type: z.literal("assign"),
+    // null leaves the leads unassigned
+    ownerId: z.number().int().positive().nullable(),
+  }),
+  z.object({
+    type: z.literal("tag"),
+    add: z.array(tagSchema).max(20).default([]),
+    remove: z.array(tagSchema).max(20).default([]),
+  }),
+  z.object({
+    type: z.literal("delete"),
+  }),
+]);
+
+export const bulkActionSchema = z.object({
+  leadIds: z.array(z.number().int().positive()).min(1).max(MAX_BULK_LEADS).optional(),
+  // Filters must narrow the leads; acting on every lead means listing them
+  filters: leadFilterParamsSchema
+    .refine(filters => Object.values(filters).some(value => value !== undefined), "Provide at least one filter")
+    .optional(),
+  action: bulkActionTypeSchema,
+}).superRefine((data, ctx) => {
+  if ((data.leadIds === undefined) === (data.filters === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Provide either leadIds or filters" });
+  }
+  if (data.action.type === "tag" && data.action.add.length === 0 && data.action.remove.length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["action"], message: "Provide tags to add or remove" });
+  }
+});
+
+export type BulkActionRequest = z.infer<typeof bulkActionTypeSchema>;
+
+// The permission each bulk action needs, matching its single-lead route
+export const bulkActionPermissions: Record<LeadBulkAction, [Resource, Action]> = {
+  status: ["leads", "update"],
+  assign: ["assignment", "update"],
+  tag: ["leads", "update"],
+  delete: ["leads", "delete"],
+};
+
+export type BulkActionResult =
+  | { success: true; job: LeadBulkJob }
+  | { success: false; status: number; message: string };
+
+/**
+ * Check each lead's move to a stage, so leads that cannot move are reported
+ * while the rest are moved
+ * @param leadIds The leads
+ * @param action The status change
+ * @param changedBy The user making the change
+ * @returns Results for leads left out, and the moves to make
+ */
+async function planStatusChanges(
+  leadIds: number[],
+  action: Extract<BulkActionRequest, { type: "status" }>,
+  changedBy: number | null,
+) {
+  const leads = new Map((await storage.getLeadsByIds(leadIds)).map(lead => [lead.id, lead]));
+  const outcomes: LeadBulkResult[] = [];
+  const changes: Array<{ leadId: number; fromStatus: string | null; toStatus: string; fields: Record<string, unknown> }> = [];
+
+  for (const leadId of leadIds) {
+    const lead = leads.get(leadId);
+    if (!lead) {
+      outcomes.push({ leadId, success: false, error: "Lead not found" });
+      continue;
+    }
+    if (lead.status === action.status) {
+      outcomes.push({ leadId, success: true });
+      continue;
+    }
+
+    const check = await checkTransition(lead, action.status, action.fields);
+    if (!check.allowed) {
+      outcomes.push({ leadId, success: false, error: check.message });
+      continue;
+    }
+    changes.push({ leadId, fromStatus: lead.status, toStatus: action.status, fields: check.fields });
+  }
+
+  return {
+    outcomes,
+    operation: { action: "status" as const, changes, note: action.note ?? null, changedBy },
+  };
+}
+
+/**
+ * Apply a status change, assignment, tags or deletion to many leads at once
+ * @param leadIds The leads
+ * @param action The action and its values
+ * @param userId The user running it
+ * @returns The job with each lead's result, or why the action was refused
+ */
+export async function runBulkAction(leadIds: number[], action: BulkActionRequest, userId: number | null): Promise<BulkActionResult> {
+  const ids = Array.from(new Set(leadIds));
+  const { type, ...params } = action;
+  const job = {
+    action: type,
+    params,
+    createdBy: userId,
+    undoExpiresAt: type === "delete" ? new Date(Date.now() + UNDO_WINDOW_MS) : null,
+  };
+
+  switch (action.type) {
+    case "status": {
+      const target = await storage.getPipelineStageByKey(action.status);
+      if (!target || !target.active) {
+        return { success: false, status: 400, message: `Unknown pipeline stage "${action.status}"` };
+      }
+
+      const { outcomes, operation } = await planStatusChanges(ids, action, userId);
+      return { success: true, job: await storage.runLeadBulkJob(job, operation, outcomes) };
+    }
+    case "assign": {
+      const { ownerId } = action;
+      if (ownerId !== null && !(await storage.getActiveUserIds([ownerId])).has(ownerId)) {
+        return { success: false, status: 400, message: "The new owner must be an active user" };
+      }
+
+      const operation = { action: "assign" as const, leadIds: ids, ownerId, assignedBy: userId };
+      return { success: true, job: await storage.runLeadBulkJob(job, operation, []) };
+    }
+    case "tag": {
+      const operation = { action: "tag" as const, leadIds: ids, add: action.add, remove: action.remove };
+      return { success: true, job: await storage.runLeadBulkJob(job, operation, []) };
+    }
+    case "delete": {
+      const operation = { action: "delete" as const, leadIds: ids };
+      return { success: true, job: await storage.runLeadBulkJob(job, operation, []) };
+    }
+  }
+}
+
+/**
+ * Restore the leads a bulk deletion removed
+ * @param jobId The bulk job
+ * @param userId The user undoing it
+ * @returns The job and the IDs of the restored leads, or why it cannot be undone
+ */
+export async function undoBulkAction(jobId: number, userId: number | null): Promise<
+  | { success: true; job: LeadBulkJob; restored: number[] }
+  | { success: false; status: number; message: string }
+> {
+  const job = await storage.getLeadBulkJobById(jobId);
+  if (!job) {
+    return { success: false, status: 404, message: "Bulk job not found" };
+  }
+  if (job.action !== "delete" || job.undoExpiresAt === null) {
+    return { success: false, status: 409, message: "Only bulk deletions can be undone" };
+  }
+  if (job.undoneAt) {
+    return { success: false, status: 409, message: "This bulk deletion has already been undone" };
+  }
+
+  const now = new Date();
+  if (job.undoExpiresAt <= now) {
+    return { success: false, status: 409, message: "The undo window for this bulk deletion has closed" };
+  }
+
+  const undone = await storage.undoLeadBulkJob(jobId, userId, now);
+  if (!undone) {
+    return { success: false, status: 409, message: "This bulk deletion can no longer be undone" };
+  }
+
+  return { success: true, ...undone };
+}
+
+/**
+ * Shape a bulk job for API responses, leaving out the copies of deleted leads
+ * @param job The bulk job
+ * @returns The job with whether it can still be undone
+ */
+export function toBulkJobResponse(job: LeadBulkJob) {
+  const { undoData, ...rest } = job;
+  return {
+    ...rest,
+    undoable: undoData !== null && job.undoneAt === null && job.undoExpiresAt !== null && job.undoExpiresAt > new Date(),
+  };
+}
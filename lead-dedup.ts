@@ -0,0 +1,266 @@
+import { Lead, InsertLead } from "@shared/schema";
+import { storage } from "./storage";
+import { log } from "./vite";
+import type { LeadAttribution } from "./attribution";
+
+// Names at least this similar (Jaro-Winkler, 0-1) in the same state are flagged for review
+const NAME_SIMILARITY_THRESHOLD = 0.9;
+
+// How far back and how many same-state leads to compare names against
+const NAME_MATCH_WINDOW_DAYS = 180;
+const NAME_MATCH_CANDIDATE_LIMIT = 500;
+
+const BACKFILL_BATCH_SIZE = 500;
+
+const GMAIL_DOMAINS = ['gmail.com', 'googlemail.com'];
+
+/**
+ * Normalize an Indian mobile number to its 10 digits, accepting +91, 0091,
+ * 91 and 0 prefixes plus any spacing or punctuation
+ * @param phone The phone number as entered
+ * @returns 10-digit number, or null if it is not a valid Indian mobile number
+ */
+export function normalizePhone(phone: string | null | undefined): string | null {
+  if (!phone) return null;
+
+  let digits = phone.replace(/\D/g, '');
+  if (digits.length === 14 && digits.startsWith('0091')) {
+    digits = digits.slice(4);
+  } else if (digits.length === 12 && digits.startsWith('91')) {
+    digits = digits.slice(2);
+  } else if (digits.length === 11 && digits.startsWith('0')) {
+    digits = digits.slice(1);
+  }
+
+  return /^[6-9]\d{9}$/.test(digits) ? digits : null;
+}
+
+/**
+ * Normalize an email address. Gmail ignores dots and "+tag" suffixes in the
+ * local part, so those are stripped for Gmail addresses.
+ * @param email The email as entered
+ * @returns Normalized email, or null if empty or malformed
+ */
+export function normalizeEmail(email: string | null | undefined): string | null {
+  if (!email) return null;
+
+  const trimmed = email.trim().toLowerCase();
+  const at = trimmed.lastIndexOf('@');
+  if (at <= 0 || at === trimmed.length - 1) return null;
+
+  let local = trimmed.slice(0, at);
+  let domain = trimmed.slice(at + 1);
+
+  if (GMAIL_DOMAINS.includes(domain)) {
+    local = local.split('+')[0].replace(/\./g, '');
+    domain = 'gmail.com';
+  }
+
+  return `${local}@${domain}`;
+}
+
+/**
+ * Normalize a name for comparison: lowercase letters only, tokens sorted so
+ * "Kumar Rahul" matches "Rahul Kumar"
+ * @param name The name
+ * @returns Normalized name
+ */
+function normalizeName(name: string | null | undefined): string {
+  if (!name) return '';
+  return name
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ');
+}
+
+/**
+ * Jaro-Winkler similarity between two strings
+ * @param a First string
+ * @param b Second string
+ * @returns Similarity from 0 (different) to 1 (identical)
+ */
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) return a.length > 0 ? 1 : 0;
+  if (!a || !b) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatches = new Array<boolean>(a.length).fill(false);
+  const bMatches = new Array<boolean>(b.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(i + matchWindow + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatches[j] || a[i] !== b[j]) continue;
+      aMatches[i] = true;
+      bMatches[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatches[i]) continue;
+    while (!bMatches[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/**
+ * Find an existing lead with the same normalized phone or email
+ * @param submission The submitted lead data
+ * @returns The earliest matching lead and why it matched, or null
+ */
+export async function findExistingLead(submission: Pick<InsertLead, 'phone' | 'email'>): Promise<{ lead: Lead; reasons: string[] } | null> {
+  const normalizedPhone = normalizePhone(submission.phone);
+  const normalizedEmail = normalizeEmail(submission.email);
+
+  const matches = await storage.findLeadsByIdentity(normalizedPhone, normalizedEmail);
+  if (matches.length === 0) return null;
+
+  const lead = matches[0];
+  const reasons: string[] = [];
+  if (normalizedPhone && normalizePhone(lead.phone) === normalizedPhone) reasons.push('phone');
+  if (normalizedEmail && normalizeEmail(lead.email) === normalizedEmail) reasons.push('email');
+
+  return { lead, reasons };
+}
+
+/**
+ * Record a repeat submission as a touchpoint on the existing lead, filling in
+ * any fields and custom attributes the existing lead is missing
+ * @param existing The lead the submission belongs to
+ * @param submission The submitted lead data
+ * @param formId The form the submission came through, if known
+ * @param customAttributes Answers to the form's custom fields, if any
+ * @param attribution Where this submission came from, if known
+ * @returns The updated lead and the touchpoint
+ */
+export async function attachSubmission(
+  existing: Lead,
+  submission: InsertLead,
+  formId: number | null,
+  customAttributes: Record<string, unknown> | null = null,
+  attribution: LeadAttribution | null = null,
+) {
+  const touchpoint = await storage.addLeadTouchpoint({
+    leadId: existing.id,
+    type: 'submission',
+    source: submission.source ?? null,
+    formId,
+    payload: {
+      ...submission,
+      ...(customAttributes ? { customAttributes } : {}),
+      ...(attribution ? { attribution } : {}),
+    },
+  });
+
+  if (customAttributes) {
+    const details = await storage.getLeadDetails(existing.id);
+    await storage.setLeadDetails(existing.id, {
+      customAttributes: { ...customAttributes, ...(details?.customAttributes ?? {}) },
+    });
+  }
+
+  const fill: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(submission)) {
+    const current = existing[key as keyof Lead];
+    if (value !== null && value !== undefined && value !== '' && (current === null || current === '')) {
+      fill[key] = value;
+    }
+  }
+
+  const lead = Object.keys(fill).length > 0
+    ? (await storage.updateLead(existing.id, fill)) ?? existing
+    : existing;
+
+  return { lead, touchpoint };
+}
+
+/**
+ * Store a lead's normalized contact details so later submissions can be matched
+ * @param lead The lead
+ */
+export async function recordLeadIdentity(lead: Lead): Promise<void> {
+  await storage.setLeadDetails(lead.id, {
+    normalizedPhone: normalizePhone(lead.phone),
+    normalizedEmail: normalizeEmail(lead.email),
+  });
+}
+
+/**
+ * Flag recent same-state leads with a very similar name as suspected duplicates
+ * @param lead The newly created lead
+ * @returns Number of suspected duplicates recorded
+ */
+export async function flagSimilarNames(lead: Lead): Promise<number> {
+  const name = normalizeName(lead.fullName);
+  if (!name || !lead.state) return 0;
+
+  const since = new Date(Date.now() - NAME_MATCH_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  const candidates = await storage.findLeadsForNameMatch(lead.state, since, NAME_MATCH_CANDIDATE_LIMIT);
+
+  let flagged = 0;
+  for (const candidate of candidates) {
+    if (candidate.id === lead.id) continue;
+
+    const similarity = jaroWinkler(name, normalizeName(candidate.fullName));
+    if (similarity < NAME_SIMILARITY_THRESHOLD) continue;
+
+    const reasons = ['name'];
+    if (lead.city && candidate.city && lead.city.trim().toLowerCase() === candidate.city.trim().toLowerCase()) {
+      reasons.push('city');
+    }
+
+    await storage.createDuplicateCandidate({
+      leadId: candidate.id,
+      duplicateLeadId: lead.id,
+      reasons,
+      similarity: Math.round(similarity * 1000) / 1000,
+    });
+    flagged++;
+  }
+
+  return flagged;
+}
+
+/**
+ * Record normalized contact details for leads created before duplicate detection
+ */
+export async function backfillLeadIdentities(): Promise<void> {
+  let afterId = 0;
+  let updated = 0;
+
+  while (true) {
+    const batch = await storage.getLeadsMissingIdentity(afterId, BACKFILL_BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const lead of batch) {
+      if (normalizePhone(lead.phone) || normalizeEmail(lead.email)) {
+        await recordLeadIdentity(lead);
+        updated++;
+      }
+    }
+
+    afterId = batch[batch.length - 1].id;
+  }
+
+  if (updated > 0) {
+    log(`Recorded contact details for ${updated} existing leads`, "dedup");
+  }
+}
@@ -0,0 +1,320 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { insertLeadSchema, type InsertLead } from "@shared/schema";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import { hashToken } from "./user-management";
+import { evaluateForm, splitAnswers, type LeadSubmissionResult } from "./form-schema";
+import { normalizePhone } from "./lead-dedup";
+import { ingestLead } from "./lead-intake";
+import { resolveAttribution } from "./attribution";
+import { limitFormViewsByIp } from "./spam-protection";
+import type { LeadDraft } from "./schema";
+
+// Drafts are keyed by a random token generated by the form page and kept in the visitor's browser
+const DRAFT_TOKEN_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// In-progress drafts untouched for this long count as abandoned
+const DEFAULT_ABANDON_AFTER_MINUTES = 30;
+
+const answerValueSchema = z.union([
+  z.string().max(2000),
+  z.number(),
+  z.boolean(),
+  z.array(z.string().max(200)).max(50),
+]);
+
+const autosaveDraftSchema = z.object({
+  // Answers keyed by field key; null clears an answer
+  answers: z.record(z.string(), answerValueSchema.nullable()),
+  source: z.string().max(100).optional(),
+});
+
+const convertDraftSchema = z.object({
+  // Values for lead columns the visitor never reached, e.g. their name
+  overrides: insertLeadSchema.partial().default({}),
+});
+
+/**
+ * Remove the token hash before sending a draft to the client
+ * @param draft The draft
+ * @returns Draft without its token hash
+ */
+function sanitizeDraft(draft: LeadDraft) {
+  const { tokenHash: _tokenHash, ...rest } = draft;
+  return rest;
+}
+
+/**
+ * Build a lead submission from a draft's valid answers
+ * @param draft The draft
+ * @param overrides Lead column values supplied by an admin
+ * @returns The submission, or why the draft cannot become a lead yet
+ */
+async function draftToSubmission(draft: LeadDraft, overrides: Partial<InsertLead>): Promise<LeadSubmissionResult> {
+  const formVersion = draft.formVersionId ? await storage.getFormVersionById(draft.formVersionId) : null;
+  if (!formVersion) {
+    return { success: false, status: 400, message: "The form version this draft was saved against no longer exists" };
+  }
+
+  // Only answers to fields the visitor could see and that pass validation are kept
+  const { answers } = evaluateForm({ fields: formVersion.fields, pages: formVersion.pages ?? [] }, draft.answers);
+  const { lead, customAttributes } = splitAnswers(formVersion.fields, answers);
+
+  const parsed = insertLeadSchema.safeParse({
+    ...(draft.source ? { source: draft.source } : {}),
+    ...lead,
+    ...overrides,
+  });
+  if (!parsed.success) {
+    return { success: false, status: 400, errors: parsed.error.errors };
+  }
+
+  return {
+    success: true,
+    formId: draft.formId,
+    formVersionId: formVersion.id,
+    lead: parsed.data,
+    customAttributes: Object.keys(customAttributes).length > 0 ? customAttributes : null,
+    attribution: draft.attribution,
+  };
+}
+
+/**
+ * Mark the draft behind a completed submission as submitted
+ * @param token The draft token sent with the submission
+ * @param formId The form the submission was made through
+ * @param leadId The lead the submission was stored as
+ */
+export async function markDraftSubmitted(token: unknown, formId: number, leadId: number): Promise<void> {
+  if (typeof token !== "string" || !DRAFT_TOKEN_PATTERN.test(token)) return;
+
+  // Tokens for another form or for closed drafts are ignored
+  const draft = await storage.getLeadDraftByTokenHash(hashToken(token));
+  if (draft && draft.formId === formId && draft.status === "in_progress") {
+    await storage.completeLeadDraft(draft.id, "submitted", leadId);
+  }
+}
+
+/**
+ * Set up public draft autosave and the admin draft and abandonment routes
+ * @param app Express application
+ */
+export function setupLeadDrafts(app: Express): void {
+  // Autosave progress on a public form
+  app.put("/api/forms/:id/drafts/:token", limitFormViewsByIp, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid form ID" });
+      }
+      if (!DRAFT_TOKEN_PATTERN.test(req.params.token)) {
+        return res.status(400).json({ message: "Invalid draft token" });
+      }
+
+      const parsed = autosaveDraftSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const form = await storage.getFormById(id);
+      const formVersion = form?.active ? await storage.getLiveFormVersion(id) : null;
+      if (!form || !formVersion) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      const tokenHash = hashToken(req.params.token);
+      const existing = await storage.getLeadDraftByTokenHash(tokenHash);
+      if (existing && (existing.formId !== id || existing.status !== "in_progress")) {
+        return res.status(409).json({ message: "This draft has already been submitted" });
+      }
+
+      // Merge with earlier progress, keeping only answers to this form's fields
+      const fieldKeys = new Set(formVersion.fields.map(field => field.key));
+      const answers: Record<string, unknown> = { ...(existing?.answers ?? {}) };
+      for (const [key, value] of Object.entries(parsed.data.answers)) {
+        if (!fieldKeys.has(key)) continue;
+        if (value === null) {
+          delete answers[key];
+        } else {
+          answers[key] = value;
+        }
+      }
+
+      // Record how far the visitor got: the last visible field with a valid
+      // answer and the first visible field still missing one
+      const definition = { fields: formVersion.fields, pages: formVersion.pages ?? [] };
+      const { answers: validAnswers, visibleFields } = evaluateForm(definition, answers);
+      const answeredFields = visibleFields.filter(key => validAnswers[key] !== undefined);
+      const phoneField = formVersion.fields.find(field => field.mapTo === "phone");
+
+      const draft = await storage.saveLeadDraft({
+        tokenHash,
+        formId: id,
+        formVersionId: formVersion.id,
+        answers,
+        source: parsed.data.source ?? existing?.source ?? null,
+        // Keep where the visitor first came from, as a submission would
+        attribution: existing?.attribution ?? await resolveAttribution(req),
+        normalizedPhone: phoneField ? normalizePhone(validAnswers[phoneField.key] as string | undefined) : null,
+        lastFieldKey: answeredFields[answeredFields.length - 1] ?? null,
+        dropOffFieldKey: visibleFields.find(key => validAnswers[key] === undefined) ?? null,
+      });
+      if (!draft) {
+        return res.status(409).json({ message: "This draft has already been submitted" });
+      }
+
+      res.json({ savedAt: draft.updatedAt, visibleFields });
+    } catch (error) {
+      console.error("Error saving form draft:", error);
+      res.status(500).json({ message: "Error saving form draft" });
+    }
+  });
+
+  // Resume a saved draft
+  app.get("/api/forms/:id/drafts/:token", limitFormViewsByIp, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id) || !DRAFT_TOKEN_PATTERN.test(req.params.token)) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      const draft = await storage.getLeadDraftByTokenHash(hashToken(req.params.token));
+      if (!draft || draft.formId !== id || draft.status !== "in_progress") {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      res.json({ answers: draft.answers, savedAt: draft.updatedAt });
+    } catch (error) {
+      console.error("Error fetching form draft:", error);
+      res.status(500).json({ message: "Error fetching form draft" });
+    }
+  });
+
+  // List drafts. status=abandoned lists in-progress drafts idle past the abandonment window.
+  app.get("/api/admin/lead-drafts", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const formId = req.query.formId ? parseInt(req.query.formId as string) : undefined;
+      const page = req.query.page ? parseInt(req.query.page as string) : undefined;
+      const perPage = req.query.perPage ? parseInt(req.query.perPage as string) : undefined;
+      const abandonAfterMinutes = parseInt(req.query.abandonAfterMinutes as string) || DEFAULT_ABANDON_AFTER_MINUTES;
+
+      const abandoned = req.query.status === "abandoned";
+      const drafts = await storage.getLeadDrafts({
+        formId: formId !== undefined && !isNaN(formId) ? formId : undefined,
+        status: abandoned ? "in_progress" : req.query.status as string | undefined,
+        updatedBefore: abandoned ? new Date(Date.now() - abandonAfterMinutes * 60 * 1000) : undefined,
+        page,
+        perPage,
+      });
+
+      res.json({
+        ...drafts,
+        data: drafts.data.map(draft => ({ ...sanitizeDraft(draft), hasPhone: !!draft.normalizedPhone })),
+      });
+    } catch (error) {
+      console.error("Error fetching lead drafts:", error);
+      res.status(500).json({ message: "Error fetching lead drafts" });
+    }
+  });
+
+  // Turn a draft that captured a phone number into a lead
+  app.post("/api/admin/lead-drafts/:id/convert", requirePermission("leads", "create"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid draft ID" });
+      }
+
+      const parsed = convertDraftSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const draft = await storage.getLeadDraftById(id);
+      if (!draft) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      if (draft.status !== "in_progress") {
+        return res.status(409).json({ message: "This draft has already been submitted or converted" });
+      }
+      if (!draft.normalizedPhone) {
+        return res.status(400).json({ message: "Only drafts with a valid phone number can be converted" });
+      }
+
+      const submission = await draftToSubmission(draft, parsed.data.overrides);
+      if (!submission.success) {
+        return submission.errors
+          ? res.status(submission.status).json({ errors: submission.errors })
+          : res.status(submission.status).json({ message: submission.message });
+      }
+
+      // Claim the draft first so it cannot be converted or submitted twice
+      if (!(await storage.completeLeadDraft(draft.id, "converted", null))) {
+        return res.status(409).json({ message: "This draft has already been submitted or converted" });
+      }
+
+      let result;
+      try {
+        result = await ingestLead(submission);
+      } catch (error) {
+        await storage.reopenLeadDraft(draft.id);
+        throw error;
+      }
+      await storage.setLeadDraftLead(draft.id, result.lead.id);
+
+      const { scoreBreakdown: _breakdown, ...lead } = result.lead;
+      res.status(result.duplicate ? 200 : 201).json({ ...lead, duplicate: result.duplicate });
+    } catch (error) {
+      console.error("Error converting lead draft:", error);
+      res.status(500).json({ message: "Error converting lead draft" });
+    }
+  });
+
+  // Where visitors abandon a form, per field of the live version
+  app.get("/api/admin/forms/:id/abandonment", requirePermission("forms", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid form ID" });
+      }
+
+      const form = await storage.getFormById(id);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      const abandonAfterMinutes = parseInt(req.query.abandonAfterMinutes as string) || DEFAULT_ABANDON_AFTER_MINUTES;
+      const stats = await storage.getDraftAbandonmentStats(id, new Date(Date.now() - abandonAfterMinutes * 60 * 1000));
+      const liveVersion = await storage.getLiveFormVersion(id);
+
+      const completed = stats.submitted + stats.converted;
+      res.json({
+        formId: id,
+        abandonAfterMinutes,
+        started: stats.started,
+        submitted: stats.submitted,
+        converted: stats.converted,
+        inProgress: stats.inProgress,
+        abandoned: stats.abandoned,
+        completionRate: stats.started > 0 ? Math.round((completed / stats.started) * 1000) / 10 : 0,
+        droppedAtSubmit: stats.droppedAtSubmit,
+        fields: (liveVersion?.fields ?? []).map(field => {
+          const reached = stats.reachedByField[field.key] ?? 0;
+          const dropped = stats.droppedByField[field.key] ?? 0;
+          return {
+            key: field.key,
+            label: field.label,
+            page: field.page ?? 1,
+            answered: reached,
+            droppedHere: dropped,
+            dropOffRate: stats.abandoned > 0 ? Math.round((dropped / stats.abandoned) * 1000) / 10 : 0,
+          };
+        }),
+      });
+    } catch (error) {
+      console.error("Error fetching abandonment report:", error);
+      res.status(500).json({ message: "Error fetching abandonment report" });
+    }
+  });
+}
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+const filterValueSchema = z.union([z.string().trim().min(1), z.number()]).transform(String);
+
+/**
+ * A filter given as one value or a list of values
+ * @param value Schema for each value
+ * @returns Schema accepting the value or a non-empty list of values
+ */
+function filterList(value: z.ZodType<string, z.ZodTypeDef, unknown>) {
+  return z.union([value, z.array(value).min(1)]);
+}
+
+const integerValueSchema = filterValueSchema.refine(value => /^\d+$/.test(value), "Expected a whole number");
+const numberValueSchema = filterValueSchema.refine(value => !isNaN(Number(value)), "Expected a number");
+const dateValueSchema = z.string().refine(value => !isNaN(Date.parse(value)), "Invalid date");
+
+// Lead list query parameters given in a request body, e.g. { status: "new", owner: "unassigned" }.
+// Unknown keys are rejected so a misspelt filter cannot silently match every lead.
+export const leadFilterParamsSchema = z.object({
+  search: z.string().trim().min(1).optional(),
+  source: filterList(filterValueSchema).optional(),
+  status: filterList(filterValueSchema).optional(),
+  state: filterList(filterValueSchema).optional(),
+  city: filterList(filterValueSchema).optional(),
+  education: filterList(filterValueSchema).optional(),
+  college: filterList(filterValueSchema).optional(),
+  formId: filterList(integerValueSchema).optional(),
+  scoreLabel: filterList(filterValueSchema.refine(value => /^(hot|warm|cold)$/i.test(value), "Expected Hot, Warm or Cold")).optional(),
+  owner: filterList(filterValueSchema.refine(value => /^(\d+|me|unassigned)$/.test(value), "Expected a user ID, \"me\" or \"unassigned\"")).optional(),
+  tag: filterList(filterValueSchema).optional(),
+  scoreMin: numberValueSchema.optional(),
+  scoreMax: numberValueSchema.optional(),
+  fromDate: dateValueSchema.optional(),
+  toDate: dateValueSchema.optional(),
+}).strict();
+
+export type LeadFilterParams = z.infer<typeof leadFilterParamsSchema>;
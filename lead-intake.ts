@@ -0,0 +1,74 @@
+import { storage } from "./storage";
+import {
+  findExistingLead,
+  attachSubmission,
+  flagSimilarNames,
+  normalizePhone,
+  normalizeEmail,
+} from "./lead-dedup";
+import { persistLeadScore } from "./lead-rescoring";
+import { recordInitialStatus } from "./pipeline";
+import { assignNewLead } from "./lead-assignment";
+import type { LeadSubmission } from "./form-schema";
+
+export type LeadIntakeResult =
+  | { duplicate: false; lead: Awaited<ReturnType<typeof persistLeadScore>> }
+  | {
+      duplicate: true;
+      lead: Awaited<ReturnType<typeof persistLeadScore>>;
+      matchedOn: string[];
+      touchpointId: number;
+    };
+
+/**
+ * Store a validated submission: attach it to an existing lead with the same
+ * phone or email, or create, flag and score a new lead
+ * @param submission The validated submission
+ * @returns The stored lead and whether it was a repeat submission
+ */
+export async function ingestLead(submission: LeadSubmission): Promise<LeadIntakeResult> {
+  const { formId, formVersionId, customAttributes, attribution } = submission;
+
+  // A repeat submission from the same phone or email becomes a touchpoint on the existing lead
+  const existing = await findExistingLead(submission.lead);
+  if (existing) {
+    const { lead, touchpoint } = await attachSubmission(existing.lead, submission.lead, formId, customAttributes, attribution);
+    return {
+      duplicate: true,
+      lead: await persistLeadScore(lead),
+      matchedOn: existing.reasons,
+      touchpointId: touchpoint.id,
+    };
+  }
+
+  const lead = await storage.createLead(submission.lead);
+
+  // Record which form version the lead came through, where it came from, its
+  // answers to custom fields and its normalized contact details
+  await storage.setLeadDetails(lead.id, {
+    ...(attribution ?? {}),
+    formId,
+    formVersionId,
+    customAttributes,
+    normalizedPhone: normalizePhone(lead.phone),
+    normalizedEmail: normalizeEmail(lead.email),
+  });
+
+  // Start the lead's status history
+  await recordInitialStatus(lead);
+
+  // Flag similarly named leads for review
+  await flagSimilarNames(lead);
+
+  // Score the lead and record its first score snapshot
+  const scoredLead = await persistLeadScore(lead);
+
+  // Give the lead an owner; the submission is stored even if no rule can
+  try {
+    await assignNewLead(scoredLead, { formId, customAttributes });
+  } catch (error) {
+    console.error("Error assigning new lead:", error);
+  }
+
+  return { duplicate: false, lead: scoredLead };
+}
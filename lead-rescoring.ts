@@ -0,0 +1,96 @@
+import { Lead } from "@shared/schema";
+import { storage } from "./storage";
+import { scoreLead } from "./lead-scoring";
+import type { LeadScoreSnapshot, LeadScoreSnapshotInsert, LeadDetails } from "./schema";
+import { log } from "./vite";
+
+const RESCORE_BATCH_SIZE = 500;
+
+let rescoreInProgress = false;
+
+/**
+ * Score leads and work out which stored scores and snapshots need writing
+ * @param batch Leads to score
+ * @param latest Latest snapshot per lead
+ * @param details Form and campaign details per lead
+ * @returns Score updates and new snapshots
+ */
+function diffScores(batch: Lead[], latest: Map<number, LeadScoreSnapshot>, details: Map<number, LeadDetails>) {
+  const scores: Array<{ leadId: number; score: number }> = [];
+  const snapshots: LeadScoreSnapshotInsert[] = [];
+  const scoredAt = new Date();
+
+  for (const lead of batch) {
+    const { score, label, breakdown, ruleVersion, modelVersion } = scoreLead(lead, undefined, details.get(lead.id));
+
+    if (lead.score !== score) {
+      scores.push({ leadId: lead.id, score });
+    }
+
+    const previous = latest.get(lead.id);
+    if (
+      !previous ||
+      previous.score !== score ||
+      previous.label !== label ||
+      previous.ruleVersion !== ruleVersion ||
+      previous.modelVersion !== modelVersion
+    ) {
+      snapshots.push({ leadId: lead.id, score, label, breakdown, ruleVersion, modelVersion, scoredAt });
+    }
+  }
+
+  return { scores, snapshots };
+}
+
+/**
+ * Score a single lead and persist the result
+ * @param lead The lead to score
+ * @returns The lead with its new score and label
+ */
+export async function persistLeadScore(lead: Lead): Promise<Lead & { score: number; scoreLabel: string; scoreBreakdown: Record<string, number> }> {
+  const details = await storage.getLeadDetailsMap([lead.id]);
+  const result = scoreLead(lead, undefined, details.get(lead.id));
+  const latest = await storage.getLatestScoreSnapshots([lead.id]);
+  const { scores, snapshots } = diffScores([lead], latest, details);
+  await storage.saveLeadScores(scores, snapshots);
+
+  return { ...lead, score: result.score, scoreLabel: result.label, scoreBreakdown: result.breakdown };
+}
+
+/**
+ * Rescore every lead in batches, refreshing stored scores and recording
+ * snapshots for any that changed. Concurrent runs are skipped.
+ * @returns Counts of leads processed and updated, or null if a run was already in progress
+ */
+export async function rescoreAllLeads(): Promise<{ processed: number; updated: number; snapshots: number } | null> {
+  if (rescoreInProgress) return null;
+  rescoreInProgress = true;
+
+  let processed = 0;
+  let updated = 0;
+  let snapshotCount = 0;
+
+  try {
+    let afterId = 0;
+    while (true) {
+      const batch = await storage.getLeadsAfterId(afterId, RESCORE_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      const leadIds = batch.map(lead => lead.id);
+      const latest = await storage.getLatestScoreSnapshots(leadIds);
+      const details = await storage.getLeadDetailsMap(leadIds);
+      const { scores, snapshots } = diffScores(batch, latest, details);
+      await storage.saveLeadScores(scores, snapshots);
+
+      processed += batch.length;
+      updated += scores.length;
+      snapshotCount += snapshots.length;
+      afterId = batch[batch.length - 1].id;
+    }
+
+    log(`Rescored ${processed} leads (${updated} updated, ${snapshotCount} snapshots)`, "scoring");
+    return { processed, updated, snapshots: snapshotCount };
+  } finally {
+    rescoreInProgress = false;
+  }
+}
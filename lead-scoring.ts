@@ -1,45 +1,193 @@
 import { Lead } from "@shared/schema";
 import { LeadScore } from "@shared/types";
+import { z } from "zod";
 
 type LeadSource = 'website' | 'landing_page' | 'facebook' | 'instagram' | 'twitter' | 'whatsapp' | 'telegram' | 'college' | 'referral' | 'other';
-type LeadStatus = 'new' | 'contacted' | 'qualified' | 'not_qualified';
 
-// Tier 1 states (major economical centers)
-const tier1States = ['Maharashtra', 'Delhi', 'Karnataka', 'Tamil Nadu', 'Telangana', 'Gujarat'];
+export const scoringConfigSchema = z.object({
+  // Multipliers applied to each factor's points before they are summed
+  factorWeights: z.object({
+    location: z.number().min(0),
+    recency: z.number().min(0),
+    education: z.number().min(0),
+    age: z.number().min(0),
+    source: z.number().min(0),
+  }),
+  // State tiers are checked in order; the first tier containing the state wins
+  stateTiers: z.array(z.object({
+    name: z.string(),
+    states: z.array(z.string().min(1)),
+    score: z.number(),
+  })),
+  defaultStateScore: z.number(),
+  // Recency bands by maximum age in days, checked in ascending order
+  recencyBands: z.array(z.object({
+    maxDays: z.number().int().min(0),
+    score: z.number(),
+  })),
+  defaultRecencyScore: z.number(),
+  // Education keyword groups are checked in order; the first matching keyword wins
+  educationKeywords: z.array(z.object({
+    keywords: z.array(z.string().min(1)).min(1),
+    score: z.number(),
+  })),
+  defaultEducationScore: z.number(),
+  // Inclusive age bands
+  ageBands: z.array(z.object({
+    min: z.number().int().min(0),
+    max: z.number().int().min(0),
+    score: z.number(),
+  }).refine(band => band.min <= band.max, "Age band min must not exceed max")),
+  defaultAgeScore: z.number(),
+  sourceWeights: z.record(z.string(), z.number()),
+  defaultSourceScore: z.number(),
+  thresholds: z.object({
+    hot: z.number(),
+    warm: z.number(),
+  }).refine(t => t.hot > t.warm, "Hot threshold must be above the warm threshold"),
+});
 
-// Tier 2 states (growing economical centers)
-const tier2States = ['Haryana', 'Uttar Pradesh', 'West Bengal', 'Kerala', 'Rajasthan', 'Punjab'];
+export type ScoringConfig = z.infer<typeof scoringConfigSchema>;
+
+// Built-in rules, used to seed the first rule set and whenever no rule set is active
+export const defaultScoringConfig: ScoringConfig = {
+  factorWeights: { location: 1, recency: 1, education: 1, age: 1, source: 1 },
+  stateTiers: [
+    // Tier 1 states (major economical centers)
+    { name: 'Tier 1', states: ['Maharashtra', 'Delhi', 'Karnataka', 'Tamil Nadu', 'Telangana', 'Gujarat'], score: 20 },
+    // Tier 2 states (growing economical centers)
+    { name: 'Tier 2', states: ['Haryana', 'Uttar Pradesh', 'West Bengal', 'Kerala', 'Rajasthan', 'Punjab'], score: 10 },
+  ],
+  defaultStateScore: 5,
+  recencyBands: [
+    { maxDays: 1, score: 20 }, // Today or yesterday
+    { maxDays: 3, score: 15 }, // Last 3 days
+    { maxDays: 7, score: 10 }, // Last week
+    { maxDays: 30, score: 5 }, // Last month
+  ],
+  defaultRecencyScore: 2, // Older than a month
+  educationKeywords: [
+    { keywords: ['post graduate', 'pg', 'masters', 'mba'], score: 20 },
+    { keywords: ['graduate', 'bachelors', 'btech', 'bba'], score: 15 },
+    { keywords: ['12th', 'senior secondary', 'higher secondary'], score: 10 },
+    { keywords: ['10th', 'secondary'], score: 5 },
+  ],
+  defaultEducationScore: 2, // Other education levels
+  ageBands: [
+    { min: 22, max: 30, score: 20 }, // Ideal age for work from home jobs
+    { min: 18, max: 21, score: 15 }, // College students
+    { min: 31, max: 40, score: 10 }, // Experienced professionals
+    { min: 41, max: 50, score: 5 },  // Mid-career professionals
+  ],
+  defaultAgeScore: 2, // Other age groups
+  sourceWeights: {
+    website: 20,
+    landing_page: 18,
+    referral: 15,
+    facebook: 12,
+    instagram: 12,
+    whatsapp: 10,
+    telegram: 10,
+    twitter: 8,
+    college: 10,
+  },
+  defaultSourceScore: 5,
+  thresholds: { hot: 70, warm: 50 },
+};
+
+// The rule set bands a model's features are bucketed by
+export type ModelFeatureBuckets = Pick<ScoringConfig, 'recencyBands' | 'educationKeywords' | 'ageBands'>;
+
+// Learned logistic regression model: feature key -> coefficient (log-odds)
+export interface LeadScoringModel {
+  version: number;
+  intercept: number;
+  weights: Record<string, number>;
+  // Buckets the model was trained with; null for models trained before they were stored
+  buckets: ModelFeatureBuckets | null;
+}
+
+// Lead data kept outside the shared leads table that the model can use
+export interface LeadScoringContext {
+  formId?: number | null;
+  campaignId?: number | null;
+}
+
+export type LeadScoreResult = LeadScore & {
+  ruleVersion: number | null;
+  modelVersion: number | null;
+};
+
+// The rule set used when scoreLead is called without an explicit config.
+// Kept in memory so scoring stays synchronous; see scoring-rules.ts.
+let activeConfig: ScoringConfig = defaultScoringConfig;
+let activeVersion: number | null = null;
+
+// When a trained model is active it replaces the rule points; the rule set
+// still supplies the Hot/Warm/Cold thresholds. See scoring-models.ts.
+let activeModel: LeadScoringModel | null = null;
+
+/**
+ * Replace the active scoring rules
+ * @param config The rule set configuration
+ * @param version The rule set version, or null for the built-in defaults
+ */
+export function setActiveScoringConfig(config: ScoringConfig, version: number | null): void {
+  activeConfig = config;
+  activeVersion = version;
+}
+
+/**
+ * Get the active scoring rules
+ * @returns The active configuration and its version
+ */
+export function getActiveScoringConfig(): { config: ScoringConfig; version: number | null } {
+  return { config: activeConfig, version: activeVersion };
+}
+
+/**
+ * Replace the active scoring model
+ * @param model The trained model, or null to score with rules only
+ */
+export function setActiveScoringModel(model: LeadScoringModel | null): void {
+  activeModel = model;
+}
+
+/**
+ * Get the active scoring model
+ * @returns The active model, or null in rules mode
+ */
+export function getActiveScoringModel(): LeadScoringModel | null {
+  return activeModel;
+}
 
 /**
  * Get state tier score based on the state name
  * @param state The state name
+ * @param config The scoring rules
  * @returns The state tier score
  */
-function getStateTierScore(state: string | null | undefined): number {
+function getStateTierScore(state: string | null | undefined, config: ScoringConfig): number {
   if (!state) return 0;
   
   const normalizedState = state.trim().toLowerCase();
   
-  // Check for Tier 1 states
-  if (tier1States.some(s => s.toLowerCase() === normalizedState)) {
-    return 20;
-  }
-  
-  // Check for Tier 2 states
-  if (tier2States.some(s => s.toLowerCase() === normalizedState)) {
-    return 10;
+  const tier = config.stateTiers.find(t => t.states.some(s => s.toLowerCase() === normalizedState));
+  if (tier) {
+    return tier.score;
   }
   
   // Default for other states
-  return 5;
+  return config.defaultStateScore;
 }
 
 /**
  * Get recency score based on creation date
  * @param createdAt The date when the lead was created
+ * @param config The scoring rules
  * @returns The recency score
  */
-function getRecencyScore(createdAt: Date | null | undefined): number {
+function getRecencyScore(createdAt: Date | null | undefined, config: ScoringConfig): number {
   if (!createdAt) return 0;
   
   const now = new Date();
@@ -47,50 +195,38 @@ function getRecencyScore(createdAt: Date | null | undefined): number {
   const daysDifference = Math.floor((now.getTime() - leadDate.getTime()) / (1000 * 60 * 60 * 24));
   
   // Score based on recency
-  if (daysDifference <= 1) return 20; // Today or yesterday
-  if (daysDifference <= 3) return 15; // Last 3 days
-  if (daysDifference <= 7) return 10; // Last week
-  if (daysDifference <= 30) return 5; // Last month
+  const bands = [...config.recencyBands].sort((a, b) => a.maxDays - b.maxDays);
+  const band = bands.find(b => daysDifference <= b.maxDays);
   
-  return 2; // Older than a month
+  return band ? band.score : config.defaultRecencyScore;
 }
 
 /**
  * Get education level score
  * @param education The education level
+ * @param config The scoring rules
  * @returns The education score
  */
-function getEducationScore(education: string | null | undefined): number {
+function getEducationScore(education: string | null | undefined, config: ScoringConfig): number {
   if (!education) return 0;
   
   const normalizedEducation = education.trim().toLowerCase();
   
   // Score based on education level
-  if (normalizedEducation.includes('post graduate') || normalizedEducation.includes('pg') || normalizedEducation.includes('masters') || normalizedEducation.includes('mba')) {
-    return 20;
-  }
-  
-  if (normalizedEducation.includes('graduate') || normalizedEducation.includes('bachelors') || normalizedEducation.includes('btech') || normalizedEducation.includes('bba')) {
-    return 15;
-  }
-  
-  if (normalizedEducation.includes('12th') || normalizedEducation.includes('senior secondary') || normalizedEducation.includes('higher secondary')) {
-    return 10;
-  }
+  const group = config.educationKeywords.find(g =>
+    g.keywords.some(keyword => normalizedEducation.includes(keyword.toLowerCase()))
+  );
   
-  if (normalizedEducation.includes('10th') || normalizedEducation.includes('secondary')) {
-    return 5;
-  }
-  
-  return 2; // Other education levels
+  return group ? group.score : config.defaultEducationScore;
 }
 
 /**
  * Get age score from age string
  * @param age The age string
+ * @param config The scoring rules
  * @returns The age score
  */
-function getAgeScore(age: string | null | undefined): number {
+function getAgeScore(age: string | null | undefined, config: ScoringConfig): number {
   if (!age) return 0;
   
   // Extract number from age string
@@ -99,108 +235,240 @@ function getAgeScore(age: string | null | undefined): number {
   if (isNaN(ageNum)) return 0;
   
   // Score based on age
-  if (ageNum >= 22 && ageNum <= 30) return 20; // Ideal age for work from home jobs
-  if (ageNum >= 18 && ageNum <= 21) return 15; // College students
-  if (ageNum >= 31 && ageNum <= 40) return 10; // Experienced professionals
-  if (ageNum >= 41 && ageNum <= 50) return 5;  // Mid-career professionals
+  const band = config.ageBands.find(b => ageNum >= b.min && ageNum <= b.max);
   
-  return 2; // Other age groups
+  return band ? band.score : config.defaultAgeScore;
 }
 
 /**
  * Get source score based on lead source
  * @param source The lead source
+ * @param config The scoring rules
  * @returns The source score
  */
-function getSourceScore(source: string | null | undefined): number {
+function getSourceScore(source: string | null | undefined, config: ScoringConfig): number {
   if (!source) return 0;
   
   // Score based on lead source
-  switch (source.toLowerCase()) {
-    case 'website':
-      return 20;
-    case 'landing_page':
-      return 18;
-    case 'referral':
-      return 15;
-    case 'facebook':
-    case 'instagram':
-      return 12;
-    case 'whatsapp':
-    case 'telegram':
-      return 10;
-    case 'twitter':
-      return 8;
-    case 'college':
-      return 10;
-    default:
-      return 5;
+  const weight = config.sourceWeights[source.toLowerCase()];
+  
+  return weight !== undefined ? weight : config.defaultSourceScore;
+}
+
+/**
+ * Get the quality label for a score
+ * @param score The total score
+ * @param config The scoring rules
+ * @returns Hot, Warm or Cold
+ */
+export function getScoreLabel(score: number, config: ScoringConfig = activeConfig): string {
+  if (score >= config.thresholds.hot) {
+    return 'Hot';
+  }
+  if (score >= config.thresholds.warm) {
+    return 'Warm';
+  }
+  return 'Cold';
+}
+
+/**
+ * Whole days between two dates
+ * @param from The earlier date
+ * @param to The later date
+ * @returns Number of days
+ */
+function daysBetween(from: Date, to: Date): number {
+  return Math.floor((to.getTime() - new Date(from).getTime()) / (1000 * 60 * 60 * 24));
+}
+
+/**
+ * Take the bands a model is trained with from a rule set, so the model keeps
+ * using them after other bands are activated
+ * @param config The rule set
+ * @returns The recency, education and age bands
+ */
+export function modelFeatureBuckets(config: ScoringConfig): ModelFeatureBuckets {
+  const { recencyBands, educationKeywords, ageBands } = config;
+  return { recencyBands, educationKeywords, ageBands };
+}
+
+/**
+ * Encode a lead as categorical features for the scoring model. Buckets follow
+ * the rule set's bands so the model and the rules describe leads the same way.
+ * @param lead The lead
+ * @param context Form and campaign the lead came through
+ * @param config The bands supplying the buckets
+ * @param asOf Reference time for recency (defaults to now)
+ * @returns Feature keys grouped by scoring factor
+ */
+export function extractLeadFeatures(
+  lead: Lead,
+  context: LeadScoringContext = {},
+  config: ModelFeatureBuckets = activeConfig,
+  asOf: Date = new Date()
+): Array<{ factor: string; feature: string }> {
+  const features: Array<{ factor: string; feature: string }> = [];
+
+  if (lead.state) {
+    features.push({ factor: 'location', feature: `state:${lead.state.trim().toLowerCase()}` });
+  }
+
+  if (lead.createdAt) {
+    const days = daysBetween(lead.createdAt, asOf);
+    const band = [...config.recencyBands].sort((a, b) => a.maxDays - b.maxDays).find(b => days <= b.maxDays);
+    features.push({ factor: 'recency', feature: band ? `recency:<=${band.maxDays}d` : 'recency:older' });
+  }
+
+  if (lead.education) {
+    const normalizedEducation = lead.education.trim().toLowerCase();
+    const group = config.educationKeywords.find(g =>
+      g.keywords.some(keyword => normalizedEducation.includes(keyword.toLowerCase()))
+    );
+    features.push({ factor: 'education', feature: group ? `education:${group.keywords[0].toLowerCase()}` : 'education:other' });
+  }
+
+  const ageNum = lead.age ? parseInt(lead.age.replace(/[^\d]/g, '')) : NaN;
+  if (!isNaN(ageNum)) {
+    const band = config.ageBands.find(b => ageNum >= b.min && ageNum <= b.max);
+    features.push({ factor: 'age', feature: band ? `age:${band.min}-${band.max}` : 'age:other' });
+  }
+
+  if (lead.source) {
+    features.push({ factor: 'source', feature: `source:${lead.source.toLowerCase()}` });
+  }
+
+  if (context.formId) {
+    features.push({ factor: 'form', feature: `form:${context.formId}` });
+  }
+
+  if (context.campaignId) {
+    features.push({ factor: 'campaign', feature: `campaign:${context.campaignId}` });
+  }
+
+  return features;
+}
+
+/**
+ * Score a lead with a trained model. The score is the predicted qualification
+ * probability as a percentage; the breakdown holds each factor's log-odds contribution.
+ * @param lead The lead
+ * @param model The trained model
+ * @param context Form and campaign the lead came through
+ * @param config The rule set supplying label thresholds, and buckets for older models
+ * @returns Object with score, breakdown and versions used
+ */
+function scoreLeadWithModel(
+  lead: Lead,
+  model: LeadScoringModel,
+  context: LeadScoringContext,
+  config: ScoringConfig
+): LeadScoreResult {
+  const breakdown: Record<string, number> = { intercept: model.intercept };
+  let logit = model.intercept;
+
+  // Bucket by the bands the model was trained with, whatever rule set is active now
+  for (const { factor, feature } of extractLeadFeatures(lead, context, model.buckets ?? config)) {
+    const weight = model.weights[feature] ?? 0;
+    breakdown[factor] = (breakdown[factor] ?? 0) + weight;
+    logit += weight;
+  }
+
+  for (const factor of Object.keys(breakdown)) {
+    breakdown[factor] = Math.round(breakdown[factor] * 1000) / 1000;
   }
+
+  const score = Math.round(100 / (1 + Math.exp(-logit)));
+
+  return {
+    score,
+    breakdown,
+    label: getScoreLabel(score, config),
+    ruleVersion: activeVersion,
+    modelVersion: model.version,
+  };
 }
 
 /**
- * Calculate lead score based on various factors
+ * Calculate lead score based on various factors. Uses the active model when
+ * one is active and no explicit config is given.
  * @param lead The lead to score
- * @returns Object with score and breakdown
+ * @param config The scoring rules (defaults to the active rule set)
+ * @param context Form and campaign the lead came through (used by the model)
+ * @returns Object with score, breakdown and the rule set and model versions used
  */
-export function scoreLead(lead: Lead): LeadScore {
+export function scoreLead(lead: Lead, config?: ScoringConfig, context: LeadScoringContext = {}): LeadScoreResult {
+  if (!config && activeModel) {
+    return scoreLeadWithModel(lead, activeModel, context, activeConfig);
+  }
+
+  const rules = config ?? activeConfig;
+  const ruleVersion = config ? null : activeVersion;
+  const weights = rules.factorWeights;
   const breakdown: Record<string, number> = {};
   
   // State/location score
-  const stateTierScore = getStateTierScore(lead.state);
-  breakdown.location = stateTierScore;
+  breakdown.location = getStateTierScore(lead.state, rules) * weights.location;
   
   // Recency score
-  const recencyScore = getRecencyScore(lead.createdAt);
-  breakdown.recency = recencyScore;
+  breakdown.recency = getRecencyScore(lead.createdAt, rules) * weights.recency;
   
   // Education score
-  const educationScore = getEducationScore(lead.education);
-  breakdown.education = educationScore;
+  breakdown.education = getEducationScore(lead.education, rules) * weights.education;
   
   // Age score
-  const ageScore = getAgeScore(lead.age);
-  breakdown.age = ageScore;
+  breakdown.age = getAgeScore(lead.age, rules) * weights.age;
   
   // Source score
-  const sourceScore = getSourceScore(lead.source);
-  breakdown.source = sourceScore;
+  breakdown.source = getSourceScore(lead.source, rules) * weights.source;
   
   // Calculate total score
-  const totalScore = stateTierScore + recencyScore + educationScore + ageScore + sourceScore;
+  const totalScore = Math.round(
+    breakdown.location + breakdown.recency + breakdown.education + breakdown.age + breakdown.source
+  );
   
   // Determine lead quality based on score
-  let label = '';
-  if (totalScore >= 70) {
-    label = 'Hot';
-  } else if (totalScore >= 50) {
-    label = 'Warm';
-  } else {
-    label = 'Cold';
-  }
+  const label = getScoreLabel(totalScore, rules);
   
   return {
     score: totalScore,
     breakdown,
-    label
+    label,
+    ruleVersion,
+    modelVersion: null
   };
 }
 
 /**
  * Batch score multiple leads
  * @param leads Array of leads to score
+ * @param config The scoring rules (defaults to the active rule set)
  * @returns Array of leads with scores
  */
-export function batchScoreLeads(leads: Lead[]): Array<Lead & { 
+export function batchScoreLeads(leads: Lead[], config?: ScoringConfig): Array<Lead & { 
   score: number;
   scoreLabel: string;
 }> {
   return leads.map(lead => {
-    const { score, label } = scoreLead(lead);
+    const { score, label } = scoreLead(lead, config);
     return {
       ...lead,
       score,
       scoreLabel: label
     };
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Attach the stored score and its label to a lead, scoring it on the fly
+ * only if it has never been scored
+ * @param lead The lead
+ * @returns Lead with score and scoreLabel
+ */
+export function withStoredScore(lead: Lead): Lead & { score: number; scoreLabel: string } {
+  if (lead.score === null || lead.score === undefined) {
+    const { score, label } = scoreLead(lead);
+    return { ...lead, score, scoreLabel: label };
+  }
+
+  return { ...lead, score: lead.score, scoreLabel: getScoreLabel(lead.score) };
+}
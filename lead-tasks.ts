@@ -0,0 +1,287 @@
+import type { Express } from "express";
+import { z } from "zod";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import { sendMail } from "./mailer";
+import { parseReportingPeriod } from "./timezone";
+import type { FirstResponseStat, FirstResponseTargets, ScoreLabel } from "./types";
+import type { LeadTask } from "./schema";
+
+export const taskTypes = ["call_back", "send_brochure", "follow_up", "other"] as const;
+export const taskStatuses = ["open", "done", "cancelled"] as const;
+
+// Minutes allowed from lead creation to the first outbound call or WhatsApp message
+export const firstResponseTargets: FirstResponseTargets = {
+  Hot: parseInt(process.env.FIRST_RESPONSE_SLA_HOT_MINUTES || "60"),
+  Warm: parseInt(process.env.FIRST_RESPONSE_SLA_WARM_MINUTES || "240"),
+  Cold: parseInt(process.env.FIRST_RESPONSE_SLA_COLD_MINUTES || "1440"),
+};
+
+// Days of leads the SLA report covers by default
+const DEFAULT_SLA_DAYS = 30;
+
+const createTaskSchema = z.object({
+  type: z.enum(taskTypes).default("follow_up"),
+  title: z.string().trim().min(1).max(200),
+  notes: z.string().trim().max(2000).optional(),
+  dueAt: z.coerce.date(),
+  // Defaults to the lead's owner, or the user creating the task
+  assigneeId: z.number().int().positive().nullable().optional(),
+});
+
+const updateTaskSchema = z.object({
+  type: z.enum(taskTypes).optional(),
+  title: z.string().trim().min(1).max(200).optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  dueAt: z.coerce.date().optional(),
+  assigneeId: z.number().int().positive().nullable().optional(),
+  status: z.enum(taskStatuses).optional(),
+});
+
+/**
+ * Flag open tasks that have passed their due time and remind their assignees
+ * @returns Number of tasks newly flagged
+ */
+export async function flagOverdueTasks(): Promise<number> {
+  const overdue = await storage.flagOverdueTasks(new Date());
+
+  // One reminder per assignee listing all of their newly overdue tasks
+  const byAssignee = new Map<number, LeadTask[]>();
+  for (const task of overdue) {
+    if (task.assigneeId === null) continue;
+    byAssignee.set(task.assigneeId, [...(byAssignee.get(task.assigneeId) ?? []), task]);
+  }
+
+  for (const [assigneeId, tasks] of Array.from(byAssignee)) {
+    try {
+      const user = await storage.getUser(assigneeId);
+      if (!user?.email) continue;
+
+      await sendMail({
+        to: user.email,
+        subject: tasks.length === 1 ? "A follow-up task is overdue" : `${tasks.length} follow-up tasks are overdue`,
+        text: [
+          "These follow-up tasks have passed their due time:",
+          "",
+          ...tasks.map(task => `- ${task.title} (lead #${task.leadId}, due ${task.dueAt.toISOString()})`),
+        ].join("\n"),
+      });
+    } catch (error) {
+      console.error("Error sending overdue task reminder:", error);
+    }
+  }
+
+  return overdue.length;
+}
+
+/**
+ * Add up first-response results per counselor
+ * @param stats Results per owner and score label
+ * @returns One entry per owner, most breaches first
+ */
+function summarizeByOwner(stats: FirstResponseStat[]) {
+  const owners = new Map<number | null, {
+    ownerId: number | null;
+    leads: number;
+    contacted: number;
+    met: number;
+    breached: number;
+    breachedLate: number;
+    breachedOpen: number;
+    byLabel: Partial<Record<ScoreLabel, Omit<FirstResponseStat, "ownerId" | "label">>>;
+  }>();
+
+  for (const { ownerId, label, ...stat } of stats) {
+    const owner = owners.get(ownerId) ?? {
+      ownerId,
+      leads: 0,
+      contacted: 0,
+      met: 0,
+      breached: 0,
+      breachedLate: 0,
+      breachedOpen: 0,
+      byLabel: {},
+    };
+    owner.leads += stat.leads;
+    owner.contacted += stat.contacted;
+    owner.met += stat.met;
+    owner.breachedLate += stat.breachedLate;
+    owner.breachedOpen += stat.breachedOpen;
+    owner.breached += stat.breachedLate + stat.breachedOpen;
+    owner.byLabel[label] = stat;
+    owners.set(ownerId, owner);
+  }
+
+  return Array.from(owners.values()).sort((a, b) => b.breached - a.breached);
+}
+
+/**
+ * Set up follow-up task routes and first-response SLA reporting
+ * @param app Express application
+ */
+export function setupLeadTasks(app: Express): void {
+  // Tasks on a lead, soonest due first
+  app.get("/api/admin/leads/:id/tasks", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const lead = await storage.getLeadById(id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const tasks = await storage.getTasks({
+        leadId: id,
+        status: req.query.status as string | undefined,
+        perPage: 100,
+      });
+      res.json(tasks.data);
+    } catch (error) {
+      console.error("Error fetching lead tasks:", error);
+      res.status(500).json({ message: "Error fetching lead tasks" });
+    }
+  });
+
+  // Add a follow-up task to a lead
+  app.post("/api/admin/leads/:id/tasks", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const parsed = createTaskSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const lead = await storage.getLeadById(id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const assigneeId = parsed.data.assigneeId !== undefined
+        ? parsed.data.assigneeId
+        : (await storage.getLeadDetails(id))?.ownerId ?? req.user?.id ?? null;
+      if (assigneeId !== null && !(await storage.getActiveUserIds([assigneeId])).has(assigneeId)) {
+        return res.status(400).json({ message: "The assignee must be an active user" });
+      }
+
+      const task = await storage.createLeadTask({
+        leadId: id,
+        type: parsed.data.type,
+        title: parsed.data.title,
+        notes: parsed.data.notes || null,
+        dueAt: parsed.data.dueAt,
+        assigneeId,
+        createdBy: req.user?.id ?? null,
+      });
+
+      res.status(201).json(task);
+    } catch (error) {
+      console.error("Error creating lead task:", error);
+      res.status(500).json({ message: "Error creating lead task" });
+    }
+  });
+
+  // List tasks. assignee accepts a user ID or "me"; overdue=true lists open tasks past due.
+  app.get("/api/admin/tasks", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const assignee = req.query.assignee as string | undefined;
+      const assigneeId = assignee === "me" ? req.user?.id ?? 0 : assignee ? parseInt(assignee) : undefined;
+      if (assigneeId !== undefined && isNaN(assigneeId)) {
+        return res.status(400).json({ message: "Invalid assignee" });
+      }
+
+      const tasks = await storage.getTasks({
+        assigneeId,
+        status: req.query.status as string | undefined,
+        overdue: req.query.overdue === "true",
+        page: req.query.page ? parseInt(req.query.page as string) : undefined,
+        perPage: req.query.perPage ? parseInt(req.query.perPage as string) : undefined,
+      });
+      res.json(tasks);
+    } catch (error) {
+      console.error("Error fetching tasks:", error);
+      res.status(500).json({ message: "Error fetching tasks" });
+    }
+  });
+
+  // Edit, reschedule, reassign, complete or cancel a task
+  app.patch("/api/admin/tasks/:id", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid task ID" });
+      }
+
+      const parsed = updateTaskSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const task = await storage.getLeadTaskById(id);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      const { assigneeId, status, dueAt } = parsed.data;
+      if (assigneeId && !(await storage.getActiveUserIds([assigneeId])).has(assigneeId)) {
+        return res.status(400).json({ message: "The assignee must be an active user" });
+      }
+
+      const changes: Parameters<typeof storage.updateLeadTask>[1] = { ...parsed.data };
+      if (status && status !== task.status) {
+        const closing = status !== "open";
+        changes.completedAt = closing ? new Date() : null;
+        changes.completedBy = closing ? req.user?.id ?? null : null;
+      }
+      // A task moved to a later time can become overdue again
+      if (dueAt && dueAt.getTime() > Date.now()) {
+        changes.overdueAt = null;
+      }
+
+      const updated = await storage.updateLeadTask(id, changes);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating task:", error);
+      res.status(500).json({ message: "Error updating task" });
+    }
+  });
+
+  // First-response SLA breaches per counselor for leads created in a date range
+  app.get("/api/admin/sla/first-response", requirePermission("dashboard", "read"), async (req, res) => {
+    try {
+      const period = parseReportingPeriod(req.query, DEFAULT_SLA_DAYS);
+      if (typeof period === "string") {
+        return res.status(400).json({ message: period });
+      }
+      const { from, to, timeZone } = period;
+
+      const stats = await storage.getFirstResponseStats(from, to, firstResponseTargets, new Date());
+      const counselors = summarizeByOwner(stats);
+
+      // Attach counselor names
+      const users = await storage.getAllUsers();
+      const names = new Map(users.map(user => [user.id, user.fullName || user.username]));
+
+      res.json({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        timeZone,
+        targets: firstResponseTargets,
+        counselors: counselors.map(counselor => ({
+          ...counselor,
+          name: counselor.ownerId === null ? "Unassigned" : names.get(counselor.ownerId) ?? null,
+          breachRate: counselor.leads > 0 ? Math.round((counselor.breached / counselor.leads) * 1000) / 10 : 0,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching first-response SLA:", error);
+      res.status(500).json({ message: "Error fetching first-response SLA" });
+    }
+  });
+}
@@ -0,0 +1,79 @@
+import { storage } from "./storage";
+
+// Failures allowed before locking, per username and per IP
+const USER_FAILURE_THRESHOLD = parseInt(process.env.LOGIN_USER_FAILURE_THRESHOLD || "5");
+const IP_FAILURE_THRESHOLD = parseInt(process.env.LOGIN_IP_FAILURE_THRESHOLD || "20");
+
+// Lockouts start at one minute and double with every further failure, up to an hour
+const BASE_LOCKOUT_MS = 60 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+// Failure counters reset after a day without failures
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build the throttle keys for a login attempt
+ * @param username The submitted username
+ * @param ip The client IP
+ * @returns Keys with their failure thresholds
+ */
+function throttleKeys(username: string, ip: string | undefined): Array<{ key: string; threshold: number }> {
+  const keys = [{ key: `user:${username.trim().toLowerCase()}`, threshold: USER_FAILURE_THRESHOLD }];
+  if (ip) {
+    keys.push({ key: `ip:${ip}`, threshold: IP_FAILURE_THRESHOLD });
+  }
+  return keys;
+}
+
+/**
+ * Check whether logins for this username or IP are currently locked
+ * @param username The submitted username
+ * @param ip The client IP
+ * @returns The time the lockout ends, or null if not locked
+ */
+export async function getLockout(username: string, ip: string | undefined): Promise<Date | null> {
+  let lockedUntil: Date | null = null;
+
+  for (const { key } of throttleKeys(username, ip)) {
+    const attempt = await storage.getLoginAttempt(key);
+    if (attempt?.lockedUntil && attempt.lockedUntil > new Date()) {
+      if (!lockedUntil || attempt.lockedUntil > lockedUntil) {
+        lockedUntil = attempt.lockedUntil;
+      }
+    }
+  }
+
+  return lockedUntil;
+}
+
+/**
+ * Record a failed login and lock progressively once the threshold is reached
+ * @param username The submitted username
+ * @param ip The client IP
+ */
+export async function recordLoginFailure(username: string, ip: string | undefined): Promise<void> {
+  const now = Date.now();
+
+  for (const { key, threshold } of throttleKeys(username, ip)) {
+    const attempt = await storage.getLoginAttempt(key);
+    const expired = !attempt || now - attempt.lastFailureAt.getTime() > FAILURE_WINDOW_MS;
+    const failures = expired ? 1 : attempt.failures + 1;
+
+    let lockedUntil: Date | null = null;
+    if (failures >= threshold) {
+      const lockoutMs = Math.min(BASE_LOCKOUT_MS * 2 ** (failures - threshold), MAX_LOCKOUT_MS);
+      lockedUntil = new Date(now + lockoutMs);
+    }
+
+    await storage.saveLoginAttempt(key, failures, lockedUntil);
+  }
+}
+
+/**
+ * Clear the username's failure counter after a successful login. The IP
+ * counter is kept so one valid account cannot be used to reset it.
+ * @param username The submitted username
+ */
+export async function recordLoginSuccess(username: string): Promise<void> {
+  await storage.clearLoginAttempt(`user:${username.trim().toLowerCase()}`);
+}
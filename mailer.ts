@@ -0,0 +1,70 @@
+import fs from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Transport that logs messages to the console (default for local development)
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Transport that writes each message as a JSON file, for local testing
+ */
+export class FileTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@.]/g, "_")}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2),
+    );
+  }
+}
+
+/**
+ * Pick a transport from MAIL_TRANSPORT ("console" or "file")
+ * @returns The configured transport
+ */
+function createDefaultTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case "file":
+      return new FileTransport(process.env.MAIL_DIR || path.resolve(process.cwd(), "mail"));
+    case "console":
+    default:
+      return new ConsoleTransport();
+  }
+}
+
+let transport: MailTransport = createDefaultTransport();
+
+/**
+ * Replace the mail transport (e.g. with a real SMTP or API-backed transport)
+ * @param mailTransport The transport to use
+ */
+export function setMailTransport(mailTransport: MailTransport): void {
+  transport = mailTransport;
+}
+
+/**
+ * Send an email through the configured transport
+ * @param message The message to send
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+  await transport.send(message);
+}
@@ -0,0 +1,379 @@
+import { pool } from "./db";
+import { log } from "./vite";
+
+// DDL for the server-owned tables in schema.ts. Every statement must be
+// idempotent because it runs on every startup.
+const statements = [
+  `CREATE TABLE IF NOT EXISTS account_status (
+    user_id INTEGER PRIMARY KEY,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    must_reset_password BOOLEAN NOT NULL DEFAULT FALSE,
+    deactivated_at TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS user_tokens (
+    id SERIAL PRIMARY KEY,
+    token_hash TEXT NOT NULL UNIQUE,
+    purpose TEXT NOT NULL,
+    user_id INTEGER,
+    email TEXT,
+    role TEXT,
+    full_name TEXT,
+    created_by INTEGER,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  // connect-pg-simple's own table creation names its primary key constraint
+  // explicitly, which fails with "session_pkey already exists" on restart
+  `CREATE TABLE IF NOT EXISTS "session" (
+    "sid" VARCHAR NOT NULL PRIMARY KEY,
+    "sess" JSON NOT NULL,
+    "expire" TIMESTAMP(6) NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS "IDX_session_expire" ON "session" ("expire")`,
+  `CREATE TABLE IF NOT EXISTS login_attempts (
+    key TEXT PRIMARY KEY,
+    failures INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP,
+    last_failure_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS api_keys (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL UNIQUE,
+    key_hash TEXT NOT NULL,
+    scopes TEXT[] NOT NULL,
+    created_by INTEGER,
+    expires_at TIMESTAMP,
+    last_used_at TIMESTAMP,
+    last_used_ip TEXT,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS scoring_rule_sets (
+    id SERIAL PRIMARY KEY,
+    version INTEGER NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    notes TEXT,
+    config JSONB NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT FALSE,
+    created_by INTEGER,
+    activated_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  // At most one active rule set
+  `CREATE UNIQUE INDEX IF NOT EXISTS scoring_rule_sets_active_idx ON scoring_rule_sets (active) WHERE active`,
+  `CREATE TABLE IF NOT EXISTS lead_score_snapshots (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL,
+    score INTEGER NOT NULL,
+    label TEXT NOT NULL,
+    breakdown JSONB NOT NULL,
+    rule_version INTEGER,
+    scored_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_score_snapshots_lead_idx ON lead_score_snapshots (lead_id, scored_at)`,
+  `CREATE INDEX IF NOT EXISTS leads_score_idx ON leads (score)`,
+  `CREATE TABLE IF NOT EXISTS lead_details (
+    lead_id INTEGER PRIMARY KEY,
+    form_id INTEGER,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_details_form_idx ON lead_details (form_id)`,
+  `ALTER TABLE lead_details ADD COLUMN IF NOT EXISTS campaign_id INTEGER`,
+  `CREATE INDEX IF NOT EXISTS lead_details_campaign_idx ON lead_details (campaign_id)`,
+  `ALTER TABLE lead_score_snapshots ADD COLUMN IF NOT EXISTS model_version INTEGER`,
+  `CREATE TABLE IF NOT EXISTS scoring_models (
+    id SERIAL PRIMARY KEY,
+    version INTEGER NOT NULL UNIQUE,
+    intercept DOUBLE PRECISION NOT NULL,
+    weights JSONB NOT NULL,
+    metrics JSONB NOT NULL,
+    active BOOLEAN NOT NULL DEFAULT FALSE,
+    trained_by INTEGER,
+    activated_at TIMESTAMP,
+    trained_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS scoring_models_active_idx ON scoring_models (active) WHERE active`,
+  `ALTER TABLE lead_details ADD COLUMN IF NOT EXISTS normalized_phone TEXT`,
+  `ALTER TABLE lead_details ADD COLUMN IF NOT EXISTS normalized_email TEXT`,
+  `CREATE INDEX IF NOT EXISTS lead_details_phone_idx ON lead_details (normalized_phone)`,
+  `CREATE INDEX IF NOT EXISTS lead_details_email_idx ON lead_details (normalized_email)`,
+  `CREATE TABLE IF NOT EXISTS lead_touchpoints (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    source TEXT,
+    form_id INTEGER,
+    payload JSONB NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_touchpoints_lead_idx ON lead_touchpoints (lead_id)`,
+  `CREATE TABLE IF NOT EXISTS lead_duplicate_candidates (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL,
+    duplicate_lead_id INTEGER NOT NULL,
+    reasons TEXT[] NOT NULL,
+    similarity DOUBLE PRECISION,
+    status TEXT NOT NULL DEFAULT 'pending',
+    resolved_by INTEGER,
+    resolved_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_duplicate_candidates_status_idx ON lead_duplicate_candidates (status)`,
+  `ALTER TABLE lead_details ADD COLUMN IF NOT EXISTS custom_attributes JSONB`,
+  `CREATE TABLE IF NOT EXISTS form_schemas (
+    form_id INTEGER PRIMARY KEY,
+    fields JSONB NOT NULL,
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `ALTER TABLE form_schemas ADD COLUMN IF NOT EXISTS live_version_id INTEGER`,
+  // One-time data migrations, recorded once applied
+  `CREATE TABLE IF NOT EXISTS schema_migrations (
+    name TEXT PRIMARY KEY,
+    applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  // Databases that already have versioning were backfilled before migrations were recorded
+  `INSERT INTO schema_migrations (name)
+    SELECT 'form_versions_backfill' WHERE to_regclass('form_versions') IS NOT NULL
+    ON CONFLICT DO NOTHING`,
+  `CREATE TABLE IF NOT EXISTS form_versions (
+    id SERIAL PRIMARY KEY,
+    form_id INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    description TEXT,
+    fields JSONB NOT NULL,
+    notes TEXT,
+    published_by INTEGER,
+    published_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS form_versions_form_version_idx ON form_versions (form_id, version)`,
+  `ALTER TABLE lead_details ADD COLUMN IF NOT EXISTS form_version_id INTEGER`,
+  `ALTER TABLE form_schemas ADD COLUMN IF NOT EXISTS pages JSONB NOT NULL DEFAULT '[]'`,
+  `ALTER TABLE form_versions ADD COLUMN IF NOT EXISTS pages JSONB NOT NULL DEFAULT '[]'`,
+  `CREATE TABLE IF NOT EXISTS lead_drafts (
+    id SERIAL PRIMARY KEY,
+    token_hash TEXT NOT NULL UNIQUE,
+    form_id INTEGER NOT NULL,
+    form_version_id INTEGER,
+    answers JSONB NOT NULL,
+    source TEXT,
+    normalized_phone TEXT,
+    last_field_key TEXT,
+    drop_off_field_key TEXT,
+    status TEXT NOT NULL DEFAULT 'in_progress',
+    lead_id INTEGER,
+    started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_drafts_form_status_idx ON lead_drafts (form_id, status)`,
+  `CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT PRIMARY KEY,
+    window_start TIMESTAMP NOT NULL DEFAULT NOW(),
+    count INTEGER NOT NULL DEFAULT 0
+  )`,
+  `CREATE TABLE IF NOT EXISTS quarantined_submissions (
+    id SERIAL PRIMARY KEY,
+    form_id INTEGER,
+    submission JSONB NOT NULL,
+    reasons TEXT[] NOT NULL,
+    ip_hash TEXT,
+    user_agent TEXT,
+    status TEXT NOT NULL DEFAULT 'pending',
+    lead_id INTEGER,
+    resolved_by INTEGER,
+    resolved_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS quarantined_submissions_status_idx ON quarantined_submissions (status)`,
+  `ALTER TABLE lead_details
+    ADD COLUMN IF NOT EXISTS utm_source TEXT,
+    ADD COLUMN IF NOT EXISTS utm_medium TEXT,
+    ADD COLUMN IF NOT EXISTS utm_campaign TEXT,
+    ADD COLUMN IF NOT EXISTS utm_term TEXT,
+    ADD COLUMN IF NOT EXISTS utm_content TEXT,
+    ADD COLUMN IF NOT EXISTS referrer TEXT,
+    ADD COLUMN IF NOT EXISTS landing_url TEXT,
+    ADD COLUMN IF NOT EXISTS click_id TEXT,
+    ADD COLUMN IF NOT EXISTS ad_post_id INTEGER`,
+  `CREATE INDEX IF NOT EXISTS lead_details_ad_post_idx ON lead_details (ad_post_id)`,
+  `CREATE TABLE IF NOT EXISTS ad_post_links (
+    id SERIAL PRIMARY KEY,
+    ad_post_id INTEGER NOT NULL UNIQUE,
+    code TEXT NOT NULL UNIQUE,
+    target_url TEXT NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS ad_post_clicks (
+    id SERIAL PRIMARY KEY,
+    link_id INTEGER NOT NULL,
+    ad_post_id INTEGER NOT NULL,
+    user_agent TEXT,
+    referrer TEXT,
+    ip_hash TEXT,
+    clicked_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS ad_post_clicks_ad_post_idx ON ad_post_clicks (ad_post_id, clicked_at)`,
+  `CREATE TABLE IF NOT EXISTS pipeline_stages (
+    id SERIAL PRIMARY KEY,
+    key TEXT NOT NULL UNIQUE,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS pipeline_transitions (
+    id SERIAL PRIMARY KEY,
+    from_stage TEXT NOT NULL,
+    to_stage TEXT NOT NULL,
+    required_fields JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS pipeline_transitions_pair_idx ON pipeline_transitions (from_stage, to_stage)`,
+  `CREATE TABLE IF NOT EXISTS lead_status_history (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    fields JSONB NOT NULL DEFAULT '{}',
+    note TEXT,
+    changed_by INTEGER,
+    changed_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_status_history_lead_idx ON lead_status_history (lead_id, changed_at)`,
+  `ALTER TABLE pipeline_stages ADD COLUMN IF NOT EXISTS outcome TEXT`,
+  // Stages seeded before outcomes existed keep counting as they did
+  `UPDATE pipeline_stages SET outcome = CASE key WHEN 'qualified' THEN 'won' ELSE 'lost' END
+    WHERE key IN ('qualified', 'not_qualified')
+    AND NOT EXISTS (SELECT 1 FROM pipeline_stages WHERE outcome IS NOT NULL)`,
+  // Seed the pipeline with the original fixed statuses, any of which could be
+  // set on any lead. Marking a lead not qualified records why.
+  `WITH seeded AS (
+    INSERT INTO pipeline_stages (key, name, position, outcome)
+    SELECT * FROM (VALUES
+      ('new', 'New', 1, NULL),
+      ('contacted', 'Contacted', 2, NULL),
+      ('qualified', 'Qualified', 3, 'won'),
+      ('not_qualified', 'Not qualified', 4, 'lost')
+    ) AS stage (key, name, position, outcome)
+    WHERE NOT EXISTS (SELECT 1 FROM pipeline_stages)
+    RETURNING key
+  )
+  INSERT INTO pipeline_transitions (from_stage, to_stage, required_fields)
+    SELECT a.key, b.key, CASE WHEN b.key = 'not_qualified' THEN '["lostReason"]'::jsonb ELSE '[]'::jsonb END
+    FROM seeded a CROSS JOIN seeded b
+    WHERE a.key <> b.key`,
+  `ALTER TABLE lead_details
+    ADD COLUMN IF NOT EXISTS owner_id INTEGER,
+    ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP`,
+  `CREATE INDEX IF NOT EXISTS lead_details_owner_idx ON lead_details (owner_id)`,
+  `CREATE TABLE IF NOT EXISTS assignment_rules (
+    id SERIAL PRIMARY KEY,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    conditions JSONB NOT NULL DEFAULT '{}',
+    strategy TEXT NOT NULL DEFAULT 'round_robin',
+    members JSONB NOT NULL,
+    cursor INTEGER NOT NULL DEFAULT 0,
+    created_by INTEGER,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE TABLE IF NOT EXISTS lead_assignments (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL,
+    owner_id INTEGER,
+    previous_owner_id INTEGER,
+    rule_id INTEGER,
+    assigned_by INTEGER,
+    assigned_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_assignments_lead_idx ON lead_assignments (lead_id, assigned_at)`,
+  `CREATE TABLE IF NOT EXISTS lead_communications (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    direction TEXT,
+    outcome TEXT,
+    duration_seconds INTEGER,
+    body TEXT,
+    occurred_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    created_by INTEGER,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_communications_lead_idx ON lead_communications (lead_id, occurred_at)`,
+  `CREATE TABLE IF NOT EXISTS lead_tasks (
+    id SERIAL PRIMARY KEY,
+    lead_id INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    title TEXT NOT NULL,
+    notes TEXT,
+    due_at TIMESTAMP NOT NULL,
+    assignee_id INTEGER,
+    status TEXT NOT NULL DEFAULT 'open',
+    overdue_at TIMESTAMP,
+    completed_at TIMESTAMP,
+    completed_by INTEGER,
+    created_by INTEGER,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `CREATE INDEX IF NOT EXISTS lead_tasks_lead_idx ON lead_tasks (lead_id)`,
+  `CREATE INDEX IF NOT EXISTS lead_tasks_status_due_idx ON lead_tasks (status, due_at)`,
+  `CREATE INDEX IF NOT EXISTS lead_tasks_assignee_idx ON lead_tasks (assignee_id, status)`,
+  `ALTER TABLE lead_details ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}'`,
+  `CREATE INDEX IF NOT EXISTS lead_details_tags_idx ON lead_details USING GIN (tags)`,
+  `CREATE TABLE IF NOT EXISTS lead_bulk_jobs (
+    id SERIAL PRIMARY KEY,
+    action TEXT NOT NULL,
+    params JSONB NOT NULL,
+    total INTEGER NOT NULL,
+    succeeded INTEGER NOT NULL,
+    failed INTEGER NOT NULL,
+    results JSONB NOT NULL,
+    undo_data JSONB,
+    undo_expires_at TIMESTAMP,
+    undone_at TIMESTAMP,
+    undone_by INTEGER,
+    created_by INTEGER,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  )`,
+  `ALTER TABLE lead_drafts ADD COLUMN IF NOT EXISTS attribution JSONB`,
+  `ALTER TABLE form_schemas
+    ADD COLUMN IF NOT EXISTS name TEXT,
+    ADD COLUMN IF NOT EXISTS description TEXT`,
+  `ALTER TABLE scoring_models ADD COLUMN IF NOT EXISTS buckets JSONB`,
+  // Fields defined before versioning were live immediately, so publish them as
+  // version 1. Runs once: drafts saved later must stay unpublished.
+  `DO $$
+  BEGIN
+    IF NOT EXISTS (SELECT 1 FROM schema_migrations WHERE name = 'form_versions_backfill') THEN
+      INSERT INTO form_versions (form_id, version, name, description, fields, pages, notes)
+        SELECT fs.form_id, 1, f.name, f.description, fs.fields, fs.pages, 'Published automatically when versioning was introduced'
+        FROM form_schemas fs
+        JOIN forms f ON f.id = fs.form_id
+        WHERE fs.live_version_id IS NULL
+          AND NOT EXISTS (SELECT 1 FROM form_versions fv WHERE fv.form_id = fs.form_id);
+      UPDATE form_schemas fs
+        SET live_version_id = fv.id
+        FROM form_versions fv
+        WHERE fs.live_version_id IS NULL AND fv.form_id = fs.form_id AND fv.version = 1;
+      INSERT INTO schema_migrations (name) VALUES ('form_versions_backfill');
+    END IF;
+  END $$`,
+];
+
+/**
+ * Create or upgrade the server-owned tables
+ */
+export async function ensureSchema(): Promise<void> {
+  for (const statement of statements) {
+    await pool.query(statement);
+  }
+  log("Database schema is up to date", "migrate");
+}
@@ -0,0 +1,56 @@
+// Password policy, configurable through environment variables
+export const passwordPolicy = {
+  minLength: parseInt(process.env.PASSWORD_MIN_LENGTH || "10"),
+  requireUppercase: process.env.PASSWORD_REQUIRE_UPPERCASE !== "false",
+  requireLowercase: process.env.PASSWORD_REQUIRE_LOWERCASE !== "false",
+  requireDigit: process.env.PASSWORD_REQUIRE_DIGIT !== "false",
+  requireSymbol: process.env.PASSWORD_REQUIRE_SYMBOL === "true",
+};
+
+// A few passwords that satisfy the character rules but are still guessed first
+const commonPasswords = ['password1', 'password123', 'welcome123', 'qwerty123', 'admin12345', 'letmein123'];
+
+/**
+ * Validate a password against the policy
+ * @param password The candidate password
+ * @param context Account details the password must not contain
+ * @returns List of policy violations (empty when the password is acceptable)
+ */
+export function validatePassword(
+  password: string,
+  context: { username?: string | null; email?: string | null } = {}
+): string[] {
+  const errors: string[] = [];
+
+  if (password.length < passwordPolicy.minLength) {
+    errors.push(`Password must be at least ${passwordPolicy.minLength} characters long`);
+  }
+  if (passwordPolicy.requireUppercase && !/[A-Z]/.test(password)) {
+    errors.push("Password must contain an uppercase letter");
+  }
+  if (passwordPolicy.requireLowercase && !/[a-z]/.test(password)) {
+    errors.push("Password must contain a lowercase letter");
+  }
+  if (passwordPolicy.requireDigit && !/\d/.test(password)) {
+    errors.push("Password must contain a digit");
+  }
+  if (passwordPolicy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+    errors.push("Password must contain a symbol");
+  }
+
+  const normalized = password.toLowerCase();
+  if (commonPasswords.includes(normalized)) {
+    errors.push("Password is too common");
+  }
+  if (context.username && normalized.includes(context.username.toLowerCase())) {
+    errors.push("Password must not contain your username");
+  }
+  if (context.email) {
+    const localPart = context.email.split("@")[0].toLowerCase();
+    if (localPart.length >= 3 && normalized.includes(localPart)) {
+      errors.push("Password must not contain your email address");
+    }
+  }
+
+  return errors;
+}
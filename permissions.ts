@@ -0,0 +1,159 @@
+import type { Request, Response, NextFunction } from "express";
+import type { ApiKey } from "./schema";
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with an API key instead of a session
+      apiKey?: ApiKey;
+    }
+  }
+}
+
+export type Role = 'admin' | 'campaign_manager' | 'counselor';
+export type Resource = 'leads' | 'forms' | 'campaigns' | 'adPosts' | 'dashboard' | 'users' | 'apiKeys' | 'scoring' | 'pipeline' | 'assignment';
+export type Action = 'read' | 'create' | 'update' | 'delete' | 'export' | 'run';
+
+export const roles: Role[] = ['admin', 'campaign_manager', 'counselor'];
+
+export type PermissionMatrix = Record<string, Partial<Record<Resource, Action[]>>>;
+
+// Default permission matrix. Admins can do everything, campaign managers run
+// campaigns and forms, counselors work leads but never delete campaigns or forms.
+const defaultMatrix: PermissionMatrix = {
+  admin: {
+    leads: ['read', 'create', 'update', 'delete', 'export'],
+    forms: ['read', 'create', 'update', 'delete'],
+    campaigns: ['read', 'create', 'update', 'delete'],
+    adPosts: ['read', 'create', 'run'],
+    dashboard: ['read'],
+    users: ['read', 'create', 'update'],
+    apiKeys: ['read', 'create', 'delete'],
+    scoring: ['read', 'create', 'update'],
+    pipeline: ['read', 'create', 'update', 'delete'],
+    assignment: ['read', 'create', 'update', 'delete'],
+  },
+  campaign_manager: {
+    leads: ['read', 'export'],
+    forms: ['read', 'create', 'update', 'delete'],
+    campaigns: ['read', 'create', 'update', 'delete'],
+    adPosts: ['read', 'create', 'run'],
+    dashboard: ['read'],
+    scoring: ['read', 'create', 'update'],
+    pipeline: ['read'],
+    assignment: ['read'],
+  },
+  counselor: {
+    leads: ['read', 'update'],
+    forms: ['read'],
+    campaigns: ['read'],
+    adPosts: ['read'],
+    dashboard: ['read'],
+    pipeline: ['read'],
+  },
+};
+
+/**
+ * Load the permission matrix, merging any per-role overrides from the
+ * PERMISSIONS_CONFIG environment variable (JSON in the same shape as the defaults)
+ * @returns The effective permission matrix
+ */
+function loadPermissionMatrix(): PermissionMatrix {
+  const matrix: PermissionMatrix = { ...defaultMatrix };
+  if (!process.env.PERMISSIONS_CONFIG) return matrix;
+
+  try {
+    const overrides = JSON.parse(process.env.PERMISSIONS_CONFIG) as PermissionMatrix;
+    for (const [role, resources] of Object.entries(overrides)) {
+      matrix[role] = { ...matrix[role], ...resources };
+    }
+  } catch (error) {
+    console.error("Invalid PERMISSIONS_CONFIG, using default permissions:", error);
+  }
+
+  return matrix;
+}
+
+export const permissionMatrix = loadPermissionMatrix();
+
+// Scopes that can be granted to API keys, and the permissions each one implies
+export const apiKeyScopes: Record<string, Partial<Record<Resource, Action[]>>> = {
+  'leads:ingest': { leads: ['create'] },
+  'leads:read': { leads: ['read', 'export'] },
+  'dashboard:read': { dashboard: ['read'] },
+  'campaigns:read': { campaigns: ['read'], adPosts: ['read'] },
+};
+
+/**
+ * Check whether an API key's scopes grant a permission
+ * @param apiKey The API key
+ * @param resource The resource being accessed
+ * @param action The action being performed
+ * @returns True if one of the key's scopes allows it
+ */
+export function apiKeyHasPermission(apiKey: ApiKey, resource: Resource, action: Action): boolean {
+  return apiKey.scopes.some(scope => apiKeyScopes[scope]?.[resource]?.includes(action));
+}
+
+/**
+ * Check whether a role may perform an action on a resource
+ * @param role The user's role
+ * @param resource The resource being accessed
+ * @param action The action being performed
+ * @returns True if the role is allowed
+ */
+export function hasPermission(role: string | undefined, resource: Resource, action: Action): boolean {
+  if (!role) return false;
+  const allowed = permissionMatrix[role]?.[resource];
+  return !!allowed && allowed.includes(action);
+}
+
+/**
+ * Middleware that rejects requests without an authenticated session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() && !req.apiKey) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+/**
+ * Middleware factory that requires the current user to hold a permission
+ * @param resource The resource being accessed
+ * @param action The action being performed
+ * @returns Express middleware
+ */
+export function requirePermission(resource: Resource, action: Action) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey) {
+      if (!apiKeyHasPermission(req.apiKey, resource, action)) {
+        return res.status(403).json({ message: "API key does not have the required scope" });
+      }
+      return next();
+    }
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasPermission(req.user.role, resource, action)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+/**
+ * Middleware factory for public routes that also accept API keys: anonymous
+ * requests pass through, but a request made with an API key must hold the scope
+ * @param resource The resource being accessed
+ * @param action The action being performed
+ * @returns Express middleware
+ */
+export function requireApiKeyScope(resource: Resource, action: Action) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiKey && !apiKeyHasPermission(req.apiKey, resource, action)) {
+      return res.status(403).json({ message: "API key does not have the required scope" });
+    }
+    next();
+  };
+}
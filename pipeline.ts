@@ -0,0 +1,338 @@
+import type { Express } from "express";
+import { z } from "zod";
+import type { Lead } from "@shared/schema";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import { withStoredScore } from "./lead-scoring";
+
+const stageKeySchema = z.string().regex(/^[a-z][a-z0-9_]{0,49}$/, "Stage keys are lowercase letters, digits and underscores");
+
+// Keys of values a transition must record, e.g. "lostReason". A key naming a
+// lead column is also satisfied by the lead's own value.
+const requiredFieldKeySchema = z.string().regex(/^[A-Za-z][A-Za-z0-9_]{0,49}$/, "Invalid field key");
+
+export const stageOutcomes = ["won", "lost"] as const;
+export type StageOutcome = typeof stageOutcomes[number];
+
+const createStageSchema = z.object({
+  key: stageKeySchema,
+  name: z.string().trim().min(1).max(100),
+  position: z.number().int().min(0).optional(),
+  // Won stages count as conversions and positive training examples; lost stages as negative ones
+  outcome: z.enum(stageOutcomes).nullable().default(null),
+});
+
+const updateStageSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  position: z.number().int().min(0).optional(),
+  outcome: z.enum(stageOutcomes).nullable().optional(),
+  // Inactive stages keep their leads but no lead can move into them
+  active: z.boolean().optional(),
+});
+
+const replaceTransitionsSchema = z.object({
+  transitions: z.array(z.object({
+    from: stageKeySchema,
+    to: stageKeySchema,
+    requiredFields: z.array(requiredFieldKeySchema).max(20).default([]),
+  })),
+}).superRefine((data, ctx) => {
+  const seen = new Set<string>();
+  data.transitions.forEach((transition, index) => {
+    if (transition.from === transition.to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transitions", index], message: "A transition must change the stage" });
+    }
+    const pair = `${transition.from}>${transition.to}`;
+    if (seen.has(pair)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transitions", index], message: `Duplicate transition from "${transition.from}" to "${transition.to}"` });
+    }
+    seen.add(pair);
+  });
+});
+
+export const statusChangeSchema = z.object({
+  status: z.string().min(1),
+  // Values for the transition's required fields, plus any other details worth recording
+  fields: z.record(z.string(), z.unknown()).default({}),
+  note: z.string().trim().max(2000).optional(),
+});
+
+export type TransitionCheck =
+  | { allowed: true; fields: Record<string, unknown> }
+  | { allowed: false; status: number; message: string; missingFields?: string[] };
+
+export type TransitionResult =
+  | { success: true; lead: Lead; changed: boolean }
+  | { success: false; status: number; message: string; missingFields?: string[] };
+
+/**
+ * Check whether a lead may move to a stage, and collect the values the move records
+ * @param lead The lead, with any edits being made alongside the move
+ * @param toStatus Key of the target stage
+ * @param fields Values supplied for the move
+ * @returns The values to record, or why the move is not allowed
+ */
+export async function checkTransition(lead: Lead, toStatus: string, fields: Record<string, unknown>): Promise<TransitionCheck> {
+  const target = await storage.getPipelineStageByKey(toStatus);
+  if (!target || !target.active) {
+    return { allowed: false, status: 400, message: `Unknown pipeline stage "${toStatus}"` };
+  }
+
+  // Leads with a status from before the pipeline was configured may move into any stage
+  const current = lead.status ? await storage.getPipelineStageByKey(lead.status) : null;
+  let requiredFields: string[] = [];
+  if (current) {
+    const transition = await storage.getPipelineTransition(current.key, target.key);
+    if (!transition) {
+      return { allowed: false, status: 409, message: `Leads cannot move from "${current.name}" to "${target.name}"` };
+    }
+    requiredFields = transition.requiredFields;
+  }
+
+  const recorded: Record<string, unknown> = { ...fields };
+  const missingFields: string[] = [];
+  for (const key of requiredFields) {
+    const value = fields[key] ?? (lead as Record<string, unknown>)[key];
+    if (value === undefined || value === null || (typeof value === "string" && value.trim() === "")) {
+      missingFields.push(key);
+    } else {
+      recorded[key] = value;
+    }
+  }
+
+  if (missingFields.length > 0) {
+    return {
+      allowed: false,
+      status: 400,
+      message: `Moving to "${target.name}" requires: ${missingFields.join(", ")}`,
+      missingFields,
+    };
+  }
+
+  return { allowed: true, fields: recorded };
+}
+
+/**
+ * Move a lead to a pipeline stage, logging who moved it
+ * @param lead The lead
+ * @param toStatus Key of the target stage
+ * @param options Values for the move, an optional note and the user making it
+ * @returns The updated lead, or why it could not be moved
+ */
+export async function transitionLead(
+  lead: Lead,
+  toStatus: string,
+  options: { fields?: Record<string, unknown>; note?: string | null; changedBy: number | null },
+): Promise<TransitionResult> {
+  if (lead.status === toStatus) {
+    return { success: true, lead, changed: false };
+  }
+
+  const check = await checkTransition(lead, toStatus, options.fields ?? {});
+  if (!check.allowed) {
+    return { success: false, status: check.status, message: check.message, missingFields: check.missingFields };
+  }
+
+  const updated = await storage.changeLeadStatus(lead.id, lead.status, {
+    toStatus,
+    fields: check.fields,
+    note: options.note ?? null,
+    changedBy: options.changedBy,
+  });
+  if (!updated) {
+    return { success: false, status: 409, message: "The lead's status changed in the meantime; reload it and try again" };
+  }
+
+  return { success: true, lead: updated, changed: true };
+}
+
+/**
+ * Start a new lead's status history with the status it was created in
+ * @param lead The new lead
+ */
+export async function recordInitialStatus(lead: Lead): Promise<void> {
+  if (!lead.status) return;
+  await storage.recordLeadStatus({ leadId: lead.id, fromStatus: null, toStatus: lead.status, fields: {}, changedBy: null });
+}
+
+/**
+ * Set up pipeline configuration routes and the lead status change and history routes
+ * @param app Express application
+ */
+export function setupPipeline(app: Express): void {
+  // Stages in order, and the transitions between them
+  app.get("/api/admin/pipeline", requirePermission("pipeline", "read"), async (req, res) => {
+    try {
+      const [stages, transitions] = await Promise.all([
+        storage.getPipelineStages(),
+        storage.getPipelineTransitions(),
+      ]);
+      res.json({ stages, transitions });
+    } catch (error) {
+      console.error("Error fetching pipeline:", error);
+      res.status(500).json({ message: "Error fetching pipeline" });
+    }
+  });
+
+  // Add a stage; it has no transitions until they are configured
+  app.post("/api/admin/pipeline/stages", requirePermission("pipeline", "create"), async (req, res) => {
+    try {
+      const parsed = createStageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      if (await storage.getPipelineStageByKey(parsed.data.key)) {
+        return res.status(409).json({ message: `A stage with key "${parsed.data.key}" already exists` });
+      }
+
+      const stages = await storage.getPipelineStages();
+      const position = parsed.data.position ?? Math.max(0, ...stages.map(stage => stage.position)) + 1;
+      const stage = await storage.createPipelineStage({ ...parsed.data, position });
+
+      res.status(201).json(stage);
+    } catch (error) {
+      console.error("Error creating pipeline stage:", error);
+      res.status(500).json({ message: "Error creating pipeline stage" });
+    }
+  });
+
+  // Rename, reorder or deactivate a stage. Keys cannot change, since leads store them.
+  app.patch("/api/admin/pipeline/stages/:id", requirePermission("pipeline", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid stage ID" });
+      }
+
+      const parsed = updateStageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const stage = await storage.updatePipelineStage(id, parsed.data);
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+
+      res.json(stage);
+    } catch (error) {
+      console.error("Error updating pipeline stage:", error);
+      res.status(500).json({ message: "Error updating pipeline stage" });
+    }
+  });
+
+  // Delete a stage no lead is in, along with its transitions
+  app.delete("/api/admin/pipeline/stages/:id", requirePermission("pipeline", "delete"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid stage ID" });
+      }
+
+      const stage = await storage.getPipelineStageById(id);
+      if (!stage) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+
+      const leadCount = await storage.countLeadsWithStatus(stage.key);
+      if (leadCount > 0) {
+        return res.status(409).json({ message: `${leadCount} leads are in this stage. Move them or deactivate the stage instead.` });
+      }
+
+      const success = await storage.deletePipelineStage(id);
+      if (!success) {
+        return res.status(404).json({ message: "Stage not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting pipeline stage:", error);
+      res.status(500).json({ message: "Error deleting pipeline stage" });
+    }
+  });
+
+  // Replace the full set of allowed transitions
+  app.put("/api/admin/pipeline/transitions", requirePermission("pipeline", "update"), async (req, res) => {
+    try {
+      const parsed = replaceTransitionsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const stageKeys = new Set((await storage.getPipelineStages()).map(stage => stage.key));
+      const unknown = parsed.data.transitions
+        .flatMap(transition => [transition.from, transition.to])
+        .filter(key => !stageKeys.has(key));
+      if (unknown.length > 0) {
+        return res.status(400).json({ message: `Unknown pipeline stages: ${Array.from(new Set(unknown)).join(", ")}` });
+      }
+
+      const transitions = await storage.replacePipelineTransitions(parsed.data.transitions.map(transition => ({
+        fromStage: transition.from,
+        toStage: transition.to,
+        requiredFields: transition.requiredFields,
+      })));
+
+      res.json(transitions);
+    } catch (error) {
+      console.error("Error updating pipeline transitions:", error);
+      res.status(500).json({ message: "Error updating pipeline transitions" });
+    }
+  });
+
+  // Move a lead to another stage
+  app.post("/api/admin/leads/:id/status", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const parsed = statusChangeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const lead = await storage.getLeadById(id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const result = await transitionLead(lead, parsed.data.status, {
+        fields: parsed.data.fields,
+        note: parsed.data.note,
+        changedBy: req.user?.id ?? null,
+      });
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message, missingFields: result.missingFields });
+      }
+
+      res.json(withStoredScore(result.lead));
+    } catch (error) {
+      console.error("Error changing lead status:", error);
+      res.status(500).json({ message: "Error changing lead status" });
+    }
+  });
+
+  // Every status a lead has been in, oldest first
+  app.get("/api/admin/leads/:id/status-history", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+
+      const lead = await storage.getLeadById(id);
+      if (!lead) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+
+      const history = await storage.getLeadStatusHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching lead status history:", error);
+      res.status(500).json({ message: "Error fetching lead status history" });
+    }
+  });
+}
@@ -2,10 +2,49 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { z } from "zod";
 import path from "path";
-import { insertLeadSchema, insertFormSchema, insertCampaignSchema } from "@shared/schema";
+import { insertFormSchema, insertCampaignSchema, type Lead, type Form } from "@shared/schema";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import { scoreLead, batchScoreLeads } from "./lead-scoring";
+import { requireAuth, requirePermission, requireApiKeyScope } from "./permissions";
+import { setupUserManagement } from "./user-management";
+import { setupApiKeys } from "./api-keys";
+import { setupScoringRules } from "./scoring-rules";
+import { setupScoringModels } from "./scoring-models";
+import { scoreLead, batchScoreLeads, withStoredScore, scoringConfigSchema } from "./lead-scoring";
+import { simulateScoring } from "./scoring-simulation";
+import { backfillLeadIdentities } from "./lead-dedup";
+import { ingestLead } from "./lead-intake";
+import { resolveAttribution } from "./attribution";
+import { setupTrackingLinks } from "./tracking-links";
+import { setupPipeline, checkTransition, statusChangeSchema } from "./pipeline";
+import { setupLeadAssignment } from "./lead-assignment";
+import { setupLeadActivity } from "./lead-activity";
+import { setupLeadTasks, flagOverdueTasks } from "./lead-tasks";
+import { bulkActionSchema, bulkActionPermissions, runBulkAction, undoBulkAction, toBulkJobResponse, MAX_BULK_LEADS } from "./lead-bulk-actions";
+import { setupLeadDrafts, markDraftSubmitted } from "./lead-drafts";
+import {
+  setupSpamProtection,
+  checkSubmission,
+  quarantineSubmission,
+  issueFillToken,
+  limitLeadSubmissionsByIp,
+  limitLeadSubmissionsByForm,
+  limitFormViewsByIp,
+} from "./spam-protection";
+import { persistLeadScore, rescoreAllLeads } from "./lead-rescoring";
+import {
+  formDefinitionSchema,
+  formFieldTypes,
+  leadFieldColumns,
+  conditionOperators,
+  evaluateForm,
+  parseLeadSubmission,
+  HONEYPOT_FIELD,
+} from "./form-schema";
+import type { AdminLeadFilters, ScoreLabel, AnalyticsInterval, AnalyticsBreakdown, LeadBulkAction } from "./types";
+import { parseReportingPeriod } from "./timezone";
+import { leadFilterParamsSchema } from "./lead-filters";
+import type { FormSchema } from "./schema";
 import { 
   checkAndSchedulePosts, 
   runSocialPost, 
@@ -29,10 +68,159 @@ function validateRequest(schema: z.ZodType<any, any>) {
   };
 }
 
+// Candidate configuration (inline or an existing rule set) and lead filter for scoring simulations
+const simulateScoringSchema = z.object({
+  config: scoringConfigSchema.optional(),
+  ruleSetId: z.number().int().optional(),
+  filters: leadFilterParamsSchema.default({}),
+  maxLeads: z.number().int().min(1).max(50000).default(10000),
+}).refine(body => body.config || body.ruleSetId !== undefined, "Either config or ruleSetId is required");
+
+// Two distinct leads to merge
+const mergeLeadsSchema = z.object({
+  primaryLeadId: z.number().int(),
+  duplicateLeadId: z.number().int(),
+}).refine(body => body.primaryLeadId !== body.duplicateLeadId, "Cannot merge a lead into itself");
+
+// Optional release notes when publishing a form
+const publishFormSchema = z.object({
+  notes: z.string().optional(),
+});
+
+// Name and description edits, saved to the form's draft
+const formDetailsSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  description: z.string().nullable().optional(),
+});
+
+/**
+ * Work out the name and description a form's next version will be published with
+ * @param form The form
+ * @param formSchema The form's draft, if it has one
+ * @returns The draft name and description, or the form's own if never edited
+ */
+function formDraftDetails(form: Form, formSchema: FormSchema | null): { name: string; description: string | null } {
+  return formSchema?.name != null
+    ? { name: formSchema.name, description: formSchema.description }
+    : { name: form.name, description: form.description ?? null };
+}
+
+// Read a query parameter that may be repeated or comma-separated
+function parseListParam(value: unknown): string[] | undefined {
+  if (value === undefined) return undefined;
+  const values = (Array.isArray(value) ? value : [value])
+    .flatMap(v => String(v).split(","))
+    .map(v => v.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+}
+
+// Read a numeric query parameter
+function parseNumberParam(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const number = Number(value);
+  return isNaN(number) ? undefined : number;
+}
+
+// Build lead filters from a query string
+function parseLeadFilters(query: Request["query"], currentUserId: number | null = null): AdminLeadFilters {
+  const scoreLabels = parseListParam(query.scoreLabel)
+    ?.map(label => label.charAt(0).toUpperCase() + label.slice(1).toLowerCase())
+    .filter((label): label is ScoreLabel => ["Hot", "Warm", "Cold"].includes(label));
+  const formIds = parseListParam(query.formId)
+    ?.map(id => parseInt(id))
+    .filter(id => !isNaN(id));
+  // owner accepts user IDs, "me" for the current user's leads and "unassigned".
+  // "me" without a signed-in user (an API key) matches no owner.
+  const owners = parseListParam(query.owner);
+  const ownerIds = owners
+    ?.filter(owner => owner !== "unassigned")
+    .map(owner => owner === "me" ? currentUserId ?? 0 : parseInt(owner))
+    .filter(id => !isNaN(id));
+
+  return {
+    search: query.search as string,
+    source: parseListParam(query.source),
+    status: parseListParam(query.status),
+    state: parseListParam(query.state),
+    city: parseListParam(query.city),
+    education: parseListParam(query.education),
+    college: parseListParam(query.college),
+    formId: formIds,
+    scoreLabel: scoreLabels,
+    ownerId: ownerIds,
+    unassigned: owners?.includes("unassigned") || undefined,
+    tag: parseListParam(query.tag)?.map(tag => tag.toLowerCase()),
+    scoreMin: parseNumberParam(query.scoreMin),
+    scoreMax: parseNumberParam(query.scoreMax),
+    dateRange: {
+      from: query.fromDate as string,
+      to: query.toDate as string,
+    },
+    page: query.page ? parseInt(query.page as string) : undefined,
+    perPage: query.perPage ? parseInt(query.perPage as string) : undefined,
+    sortBy: query.sortBy as string,
+    sortOrder: query.sortOrder as "asc" | "desc",
+  };
+}
+
+// Approximate bucket lengths, used to cap how many buckets a request can ask for
+const analyticsIntervalMs: Record<AnalyticsInterval, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 28 * 24 * 60 * 60 * 1000,
+};
+
+const analyticsBreakdowns: AnalyticsBreakdown[] = ["source", "state", "scoreLabel", "status", "form", "campaign"];
+
+const MAX_ANALYTICS_BUCKETS = 1000;
+
+function isAnalyticsInterval(value: string): value is AnalyticsInterval {
+  return Object.prototype.hasOwnProperty.call(analyticsIntervalMs, value);
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication
   setupAuth(app);
 
+  // Accept API keys alongside sessions
+  setupApiKeys(app);
+
+  // Every admin route requires an authenticated session or API key; per-route permissions
+  // are enforced with requirePermission below
+  app.use("/api/admin", requireAuth);
+
+  // Set up admin user management and invitations
+  setupUserManagement(app);
+
+  // Set up form draft autosave and abandonment reporting
+  setupLeadDrafts(app);
+
+  // Set up rate limit housekeeping and spam quarantine review
+  setupSpamProtection(app);
+
+  // Set up ad post short link redirects and click statistics
+  setupTrackingLinks(app);
+
+  // Set up pipeline stage configuration and lead status changes
+  setupPipeline(app);
+
+  // Set up lead assignment rules and reassignment
+  setupLeadAssignment(app);
+
+  // Set up call, WhatsApp and note logging and the lead timeline
+  setupLeadActivity(app);
+
+  // Set up follow-up tasks and first-response SLA reporting
+  setupLeadTasks(app);
+
+  // Load the active scoring rules and set up rule set management
+  await setupScoringRules(app);
+
+  // Load the active trained scoring model and set up model training
+  await setupScoringModels(app);
+
   // Set up cron job to check and schedule posts every hour during business hours (9 AM to 6 PM IST)
   // Run every hour on weekdays
   cron.schedule("0 * 9-18 * * 1-5", async () => {
@@ -40,19 +228,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
     await checkAndSchedulePosts();
   });
 
+  // Record normalized contact details for leads created before duplicate detection
+  backfillLeadIdentities().catch(error => console.error("Error backfilling lead identities:", error));
+
+  // Flag follow-up tasks that have passed their due time and remind assignees
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      const flagged = await flagOverdueTasks();
+      if (flagged > 0) {
+        console.log(`Flagged ${flagged} overdue follow-up tasks`);
+      }
+    } catch (error) {
+      console.error("Error flagging overdue tasks:", error);
+    }
+  });
+
+  // Drop copies of bulk-deleted leads once they can no longer be restored
+  cron.schedule("45 * * * *", async () => {
+    try {
+      await storage.clearExpiredLeadBulkUndoData(new Date());
+    } catch (error) {
+      console.error("Error clearing expired bulk undo data:", error);
+    }
+  });
+
+  // Refresh stored lead scores every hour, since recency decays over time
+  cron.schedule("15 * * * *", async () => {
+    try {
+      await rescoreAllLeads();
+    } catch (error) {
+      console.error("Error rescoring leads:", error);
+    }
+  });
+
   // API Routes
   // Lead Form Submission
-  app.post("/api/leads", validateRequest(insertLeadSchema), async (req, res) => {
+  app.post("/api/leads", requireApiKeyScope("leads", "create"), limitLeadSubmissionsByIp, limitLeadSubmissionsByForm, async (req, res) => {
     try {
-      const lead = await storage.createLead(req.body);
+      // Submissions through a form are validated against that form's fields
+      const submission = await parseLeadSubmission(
+        parseNumberParam(req.query.formId ?? req.body?.formId) ?? null,
+        req.body ?? {},
+      );
+      if (!submission.success) {
+        return submission.errors
+          ? res.status(submission.status).json({ errors: submission.errors })
+          : res.status(submission.status).json({ message: submission.message });
+      }
       
-      // Score the lead
-      const { score, label } = scoreLead(lead);
+      // Record UTM parameters, referrer and the ad post or campaign the visitor clicked through
+      submission.attribution = await resolveAttribution(req);
       
-      // Update the lead with the score
-      await storage.updateLead(lead.id, { score });
+      // Suspected spam is held for review instead of becoming a lead. Bots get the
+      // same kind of response either way.
+      const spamCheck = await checkSubmission(req, submission);
+      if (spamCheck.action === "reject") {
+        return res.status(spamCheck.status).json({ message: spamCheck.message });
+      }
+      if (spamCheck.action === "quarantine") {
+        await quarantineSubmission(req, submission, spamCheck.reasons);
+        return res.status(202).json({ message: "Submission received" });
+      }
+      
+      const result = await ingestLead(submission);
+      
+      // Close the autosaved draft this submission completes. The lead is already
+      // stored, so a failure here must not make the visitor submit again.
+      if (submission.formId !== null) {
+        try {
+          await markDraftSubmitted(req.body?.draftToken, submission.formId, result.lead.id);
+        } catch (error) {
+          console.error("Error closing form draft:", error);
+        }
+      }
       
-      res.status(201).json({ ...lead, score, scoreLabel: label });
+      const { scoreBreakdown: _breakdown, ...scoredLead } = result.lead;
+      if (result.duplicate) {
+        // Anonymous visitors must not see the existing lead, which may be someone else's
+        if (!req.apiKey && !req.isAuthenticated()) {
+          return res.status(200).json({ id: scoredLead.id, duplicate: true });
+        }
+        return res.status(200).json({
+          ...scoredLead,
+          duplicate: true,
+          matchedOn: result.matchedOn,
+          touchpointId: result.touchpointId,
+        });
+      }
+      
+      res.status(201).json(scoredLead);
     } catch (error) {
       console.error("Error creating lead:", error);
       res.status(500).json({ message: "Error creating lead" });
@@ -73,9 +337,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Score the lead
-      const { score, label, breakdown } = scoreLead(lead);
+      const details = await storage.getLeadDetails(lead.id);
+      const { score, label, breakdown } = scoreLead(lead, undefined, details ?? {});
+      
+      // The form version the lead answered
+      const formVersion = details?.formVersionId ? await storage.getFormVersionById(details.formVersionId) : null;
       
-      res.json({ ...lead, score, scoreLabel: label, scoreBreakdown: breakdown });
+      res.json({
+        ...lead,
+        formId: details?.formId ?? null,
+        formVersion: formVersion ? { id: formVersion.id, version: formVersion.version, publishedAt: formVersion.publishedAt } : null,
+        attribution: details ? {
+          utmSource: details.utmSource,
+          utmMedium: details.utmMedium,
+          utmCampaign: details.utmCampaign,
+          utmTerm: details.utmTerm,
+          utmContent: details.utmContent,
+          referrer: details.referrer,
+          landingUrl: details.landingUrl,
+          clickId: details.clickId,
+          adPostId: details.adPostId,
+          campaignId: details.campaignId,
+        } : null,
+        customAttributes: details?.customAttributes ?? {},
+        ownerId: details?.ownerId ?? null,
+        assignedAt: details?.assignedAt ?? null,
+        tags: details?.tags ?? [],
+        score,
+        scoreLabel: label,
+        scoreBreakdown: breakdown,
+      });
     } catch (error) {
       console.error("Error fetching lead:", error);
       res.status(500).json({ message: "Error fetching lead" });
@@ -84,41 +375,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Admin API Routes (protected)
   // Get all leads with filters and pagination
-  app.get("/api/admin/leads", async (req, res) => {
+  app.get("/api/admin/leads", requirePermission("leads", "read"), async (req, res) => {
     try {
-      const { 
-        search, 
-        source, 
-        status, 
-        fromDate, 
-        toDate, 
-        page, 
-        perPage,
-        sortBy,
-        sortOrder 
-      } = req.query;
-      
-      const filters = {
-        search: search as string,
-        source: source as string,
-        status: status as string,
-        dateRange: {
-          from: fromDate as string,
-          to: toDate as string,
-        },
-        page: page ? parseInt(page as string) : undefined,
-        perPage: perPage ? parseInt(perPage as string) : undefined,
-        sortBy: sortBy as string,
-        sortOrder: sortOrder as "asc" | "desc",
-      };
+      const filters = parseLeadFilters(req.query, req.user?.id ?? null);
       
       const results = await storage.getAllLeads(filters);
       
-      // Score all leads
-      const scoredLeads = results.data.map(lead => {
-        const { score, label } = scoreLead(lead);
-        return { ...lead, score, scoreLabel: label };
-      });
+      // Attach stored scores, owners and tags
+      const details = await storage.getLeadDetailsMap(results.data.map(lead => lead.id));
+      const scoredLeads = results.data.map(lead => ({
+        ...withStoredScore(lead),
+        ownerId: details.get(lead.id)?.ownerId ?? null,
+        tags: details.get(lead.id)?.tags ?? [],
+      }));
       
       res.json({
         data: scoredLeads,
@@ -131,30 +400,184 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update lead
-  app.patch("/api/admin/leads/:id", async (req, res) => {
+  app.patch("/api/admin/leads/:id", requirePermission("leads", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid lead ID" });
       }
       
-      const lead = await storage.updateLead(id, req.body);
-      if (!lead) {
+      const { status, statusFields, statusNote, ...changes } = req.body ?? {};
+      const existing = await storage.getLeadById(id);
+      if (!existing) {
         return res.status(404).json({ message: "Lead not found" });
       }
       
-      // Score the lead
-      const { score, label } = scoreLead(lead);
+      // Status changes go through the pipeline so they are checked and logged.
+      // The check sees the other edits, which may supply required fields, and
+      // the edits and the move are then saved together.
+      let lead: Lead | null;
+      if (status !== undefined && status !== existing.status) {
+        const parsed = statusChangeSchema.safeParse({ status, fields: statusFields, note: statusNote });
+        if (!parsed.success) {
+          return res.status(400).json({ errors: parsed.error.errors });
+        }
+        
+        const check = await checkTransition({ ...existing, ...changes }, parsed.data.status, parsed.data.fields);
+        if (!check.allowed) {
+          return res.status(check.status).json({ message: check.message, missingFields: check.missingFields });
+        }
+        
+        lead = await storage.updateLeadWithStatus(id, changes, existing.status, {
+          toStatus: parsed.data.status,
+          fields: check.fields,
+          note: parsed.data.note ?? null,
+          changedBy: req.user?.id ?? null,
+        });
+        if (!lead) {
+          return res.status(409).json({ message: "The lead's status changed in the meantime; reload it and try again" });
+        }
+      } else {
+        lead = Object.keys(changes).length > 0 ? await storage.updateLead(id, changes) : existing;
+        if (!lead) {
+          return res.status(404).json({ message: "Lead not found" });
+        }
+      }
+      
+      // Rescore the lead, since the update may have changed scored fields
+      const { scoreBreakdown: _breakdown, ...scoredLead } = await persistLeadScore(lead);
       
-      res.json({ ...lead, score, scoreLabel: label });
+      res.json(scoredLead);
     } catch (error) {
       console.error("Error updating lead:", error);
       res.status(500).json({ message: "Error updating lead" });
     }
   });
 
+  // List suspected duplicate leads awaiting review
+  app.get("/api/admin/leads/duplicates", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
+      const page = req.query.page ? parseInt(req.query.page as string) : 1;
+      const perPage = req.query.perPage ? parseInt(req.query.perPage as string) : 20;
+      
+      const results = await storage.getDuplicateCandidates(status, page, perPage);
+      res.json(results);
+    } catch (error) {
+      console.error("Error fetching duplicate leads:", error);
+      res.status(500).json({ message: "Error fetching duplicate leads" });
+    }
+  });
+
+  // Dismiss a suspected duplicate
+  app.post("/api/admin/leads/duplicates/:id/dismiss", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid duplicate ID" });
+      }
+      
+      const candidate = await storage.resolveDuplicateCandidate(id, "dismissed", req.user?.id ?? null);
+      if (!candidate) {
+        return res.status(404).json({ message: "Pending duplicate not found" });
+      }
+      
+      res.json(candidate);
+    } catch (error) {
+      console.error("Error dismissing duplicate:", error);
+      res.status(500).json({ message: "Error dismissing duplicate" });
+    }
+  });
+
+  // Merge a duplicate lead into a primary lead, keeping the duplicate's history
+  app.post("/api/admin/leads/merge", requirePermission("leads", "delete"), validateRequest(mergeLeadsSchema), async (req, res) => {
+    try {
+      const { primaryLeadId, duplicateLeadId } = req.body as z.infer<typeof mergeLeadsSchema>;
+      
+      const merged = await storage.mergeLeads(primaryLeadId, duplicateLeadId, req.user?.id ?? null);
+      if (!merged) {
+        return res.status(404).json({ message: "Lead not found" });
+      }
+      
+      const { scoreBreakdown: _breakdown, ...scoredLead } = await persistLeadScore(merged);
+      res.json(scoredLead);
+    } catch (error) {
+      console.error("Error merging leads:", error);
+      res.status(500).json({ message: "Error merging leads" });
+    }
+  });
+
+  // Get a lead's repeat submissions and merged records
+  app.get("/api/admin/leads/:id/touchpoints", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+      
+      const touchpoints = await storage.getLeadTouchpoints(id);
+      res.json(touchpoints);
+    } catch (error) {
+      console.error("Error fetching touchpoints:", error);
+      res.status(500).json({ message: "Error fetching touchpoints" });
+    }
+  });
+
+  // Get a lead's score history
+  app.get("/api/admin/leads/:id/score-history", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid lead ID" });
+      }
+      
+      const history = await storage.getLeadScoreHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching score history:", error);
+      res.status(500).json({ message: "Error fetching score history" });
+    }
+  });
+
+  // Trigger a full rescore of all leads
+  app.post("/api/admin/scoring/rescore", requirePermission("scoring", "update"), async (req, res) => {
+    try {
+      const result = await rescoreAllLeads();
+      if (!result) {
+        return res.status(409).json({ message: "A rescore is already in progress" });
+      }
+      
+      res.json(result);
+    } catch (error) {
+      console.error("Error rescoring leads:", error);
+      res.status(500).json({ message: "Error rescoring leads" });
+    }
+  });
+
+  // Compare the active scoring rules with a candidate configuration on historic leads
+  app.post("/api/admin/scoring/simulate", requirePermission("scoring", "read"), validateRequest(simulateScoringSchema), async (req, res) => {
+    try {
+      const { config, ruleSetId, filters, maxLeads } = req.body as z.infer<typeof simulateScoringSchema>;
+      
+      let candidate = config;
+      if (!candidate && ruleSetId !== undefined) {
+        const ruleSet = await storage.getScoringRuleSetById(ruleSetId);
+        if (!ruleSet) {
+          return res.status(404).json({ message: "Rule set not found" });
+        }
+        candidate = ruleSet.config;
+      }
+      
+      const result = await simulateScoring(candidate!, parseLeadFilters(filters, req.user?.id ?? null), maxLeads);
+      res.json(result);
+    } catch (error) {
+      console.error("Error simulating scoring:", error);
+      res.status(500).json({ message: "Error simulating scoring" });
+    }
+  });
+
   // Delete lead
-  app.delete("/api/admin/leads/:id", async (req, res) => {
+  app.delete("/api/admin/leads/:id", requirePermission("leads", "delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -173,10 +596,94 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Change the status of, assign, tag or delete listed leads or every lead matching filters.
+  // Each action needs the same permission as its single-lead route.
+  app.post("/api/admin/leads/bulk", (req, res, next) => {
+    const type = req.body?.action?.type;
+    const [resource, action] = Object.prototype.hasOwnProperty.call(bulkActionPermissions, type)
+      ? bulkActionPermissions[type as LeadBulkAction]
+      : bulkActionPermissions.status;
+    requirePermission(resource, action)(req, res, next);
+  }, async (req, res) => {
+    try {
+      const parsed = bulkActionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+      
+      let leadIds = parsed.data.leadIds ?? [];
+      if (parsed.data.filters) {
+        const filters = parseLeadFilters(parsed.data.filters, req.user?.id ?? null);
+        leadIds = await storage.getLeadIds(filters, MAX_BULK_LEADS + 1);
+        if (leadIds.length === 0) {
+          return res.status(400).json({ message: "No leads match the filters" });
+        }
+        if (leadIds.length > MAX_BULK_LEADS) {
+          return res.status(400).json({ message: `More than ${MAX_BULK_LEADS} leads match the filters; narrow them and try again` });
+        }
+      }
+      
+      const result = await runBulkAction(leadIds, parsed.data.action, req.user?.id ?? null);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      res.status(201).json(toBulkJobResponse(result.job));
+    } catch (error) {
+      console.error("Error running bulk lead action:", error);
+      res.status(500).json({ message: "Error running bulk lead action" });
+    }
+  });
+
+  // A bulk action's per-lead results
+  app.get("/api/admin/leads/bulk/:jobId", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ message: "Invalid bulk job ID" });
+      }
+      
+      const job = await storage.getLeadBulkJobById(jobId);
+      if (!job) {
+        return res.status(404).json({ message: "Bulk job not found" });
+      }
+      
+      res.json(toBulkJobResponse(job));
+    } catch (error) {
+      console.error("Error fetching bulk lead job:", error);
+      res.status(500).json({ message: "Error fetching bulk lead job" });
+    }
+  });
+
+  // Restore leads removed by a bulk deletion while its undo window is open
+  app.post("/api/admin/leads/bulk/:jobId/undo", requirePermission("leads", "delete"), async (req, res) => {
+    try {
+      const jobId = parseInt(req.params.jobId);
+      if (isNaN(jobId)) {
+        return res.status(400).json({ message: "Invalid bulk job ID" });
+      }
+      
+      const result = await undoBulkAction(jobId, req.user?.id ?? null);
+      if (!result.success) {
+        return res.status(result.status).json({ message: result.message });
+      }
+      
+      res.json({ ...toBulkJobResponse(result.job), restored: result.restored });
+    } catch (error) {
+      console.error("Error undoing bulk lead action:", error);
+      res.status(500).json({ message: "Error undoing bulk lead action" });
+    }
+  });
+
   // Get dashboard stats
-  app.get("/api/admin/dashboard/stats", async (req, res) => {
+  app.get("/api/admin/dashboard/stats", requirePermission("dashboard", "read"), async (req, res) => {
     try {
-      const stats = await storage.getDashboardStats();
+      const period = parseReportingPeriod(req.query);
+      if (typeof period === "string") {
+        return res.status(400).json({ message: period });
+      }
+      
+      const stats = await storage.getDashboardStats(period);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -185,7 +692,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get lead sources stats
-  app.get("/api/admin/dashboard/lead-sources", async (req, res) => {
+  app.get("/api/admin/dashboard/lead-sources", requirePermission("dashboard", "read"), async (req, res) => {
     try {
       const stats = await storage.getLeadSourcesStats();
       res.json(stats);
@@ -195,17 +702,49 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Lead counts over time, optionally broken down, for charting lead velocity
+  app.get("/api/admin/analytics/leads", requirePermission("dashboard", "read"), async (req, res) => {
+    try {
+      const period = parseReportingPeriod(req.query);
+      if (typeof period === "string") {
+        return res.status(400).json({ message: period });
+      }
+
+      const interval = (req.query.interval as string) || "day";
+      if (!isAnalyticsInterval(interval)) {
+        return res.status(400).json({ message: `interval must be one of: ${Object.keys(analyticsIntervalMs).join(", ")}` });
+      }
+
+      const breakdown = req.query.breakdown as string | undefined;
+      if (breakdown !== undefined && !analyticsBreakdowns.includes(breakdown as AnalyticsBreakdown)) {
+        return res.status(400).json({ message: `breakdown must be one of: ${analyticsBreakdowns.join(", ")}` });
+      }
+
+      if ((period.to.getTime() - period.from.getTime()) / analyticsIntervalMs[interval] > MAX_ANALYTICS_BUCKETS) {
+        return res.status(400).json({ message: `Too many ${interval} buckets; use a shorter range or a longer interval` });
+      }
+
+      const series = await storage.getLeadTimeSeries({
+        ...period,
+        interval,
+        breakdown: breakdown as AnalyticsBreakdown | undefined,
+        filters: parseLeadFilters(req.query, req.user?.id ?? null),
+      });
+      res.json(series);
+    } catch (error) {
+      console.error("Error fetching lead analytics:", error);
+      res.status(500).json({ message: "Error fetching lead analytics" });
+    }
+  });
+
   // Get recent leads for dashboard
-  app.get("/api/admin/dashboard/recent-leads", async (req, res) => {
+  app.get("/api/admin/dashboard/recent-leads", requirePermission("dashboard", "read"), async (req, res) => {
     try {
       const limit = req.query.limit ? parseInt(req.query.limit as string) : 5;
       const leads = await storage.getRecentLeads(limit);
       
-      // Score all leads
-      const scoredLeads = leads.map(lead => {
-        const { score, label } = scoreLead(lead);
-        return { ...lead, score, scoreLabel: label };
-      });
+      // Attach stored scores
+      const scoredLeads = leads.map(withStoredScore);
       
       res.json(scoredLeads);
     } catch (error) {
@@ -215,34 +754,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Export leads to CSV
-  app.get("/api/admin/leads/export", async (req, res) => {
+  app.get("/api/admin/leads/export", requirePermission("leads", "export"), async (req, res) => {
     try {
-      const { 
-        search, 
-        source, 
-        status, 
-        fromDate, 
-        toDate 
-      } = req.query;
-      
       const filters = {
-        search: search as string,
-        source: source as string,
-        status: status as string,
-        dateRange: {
-          from: fromDate as string,
-          to: toDate as string,
-        },
+        ...parseLeadFilters(req.query, req.user?.id ?? null),
+        page: 1,
         perPage: 1000, // Get a large batch for export
       };
       
       const results = await storage.getAllLeads(filters);
       
-      // Score all leads
-      const scoredLeads = results.data.map(lead => {
-        const { score, label } = scoreLead(lead);
-        return { ...lead, score, scoreLabel: label };
-      });
+      // Attach stored scores and owners
+      const details = await storage.getLeadDetailsMap(results.data.map(lead => lead.id));
+      const scoredLeads = results.data.map(lead => ({
+        ...withStoredScore(lead),
+        ownerId: details.get(lead.id)?.ownerId ?? null,
+      }));
       
       // Convert to CSV format
       const headers = "ID,Name,Email,Phone,Age,Education,College,State,City,Source,Status,Score,Quality,Created At\n";
@@ -263,7 +790,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Forms API
   // Get all forms
-  app.get("/api/admin/forms", async (req, res) => {
+  app.get("/api/admin/forms", requirePermission("forms", "read"), async (req, res) => {
     try {
       const forms = await storage.getAllForms();
       res.json(forms);
@@ -274,7 +801,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get form by ID
-  app.get("/api/admin/forms/:id", async (req, res) => {
+  app.get("/api/admin/forms/:id", requirePermission("forms", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -286,15 +813,173 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Form not found" });
       }
       
-      res.json(form);
+      // Draft name, description, fields and pages, plus the version visitors currently see
+      const formSchema = await storage.getFormSchema(id);
+      const liveVersion = await storage.getLiveFormVersion(id);
+      res.json({
+        ...form,
+        ...formDraftDetails(form, formSchema),
+        fields: formSchema?.fields ?? [],
+        pages: formSchema?.pages ?? [],
+        liveVersion,
+      });
     } catch (error) {
       console.error("Error fetching form:", error);
       res.status(500).json({ message: "Error fetching form" });
     }
   });
 
+  // Get a form's draft fields and pages
+  app.get("/api/admin/forms/:id/fields", requirePermission("forms", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid form ID" });
+      }
+      
+      const form = await storage.getFormById(id);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      
+      const formSchema = await storage.getFormSchema(id);
+      res.json({
+        fields: formSchema?.fields ?? [],
+        pages: formSchema?.pages ?? [],
+        fieldTypes: formFieldTypes,
+        leadColumns: leadFieldColumns,
+        conditionOperators,
+      });
+    } catch (error) {
+      console.error("Error fetching form fields:", error);
+      res.status(500).json({ message: "Error fetching form fields" });
+    }
+  });
+
+  // Replace a form's draft fields and pages. Visitors keep seeing the live version until the draft is published.
+  app.put("/api/admin/forms/:id/fields", requirePermission("forms", "update"), validateRequest(formDefinitionSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid form ID" });
+      }
+      
+      const form = await storage.getFormById(id);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      
+      const formSchema = await storage.setFormSchema(id, req.body);
+      res.json({ fields: formSchema.fields, pages: formSchema.pages });
+    } catch (error) {
+      console.error("Error updating form fields:", error);
+      res.status(500).json({ message: "Error updating form fields" });
+    }
+  });
+
+  // List a form's published versions
+  app.get("/api/admin/forms/:id/versions", requirePermission("forms", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid form ID" });
+      }
+      
+      const form = await storage.getFormById(id);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      
+      const versions = await storage.getFormVersions(id);
+      const liveVersion = await storage.getLiveFormVersion(id);
+      res.json(versions.map(version => ({ ...version, live: version.id === liveVersion?.id })));
+    } catch (error) {
+      console.error("Error fetching form versions:", error);
+      res.status(500).json({ message: "Error fetching form versions" });
+    }
+  });
+
+  // Get a published form version
+  app.get("/api/admin/forms/:id/versions/:versionId", requirePermission("forms", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(id) || isNaN(versionId)) {
+        return res.status(400).json({ message: "Invalid form or version ID" });
+      }
+      
+      const formVersion = await storage.getFormVersionById(versionId);
+      if (!formVersion || formVersion.formId !== id) {
+        return res.status(404).json({ message: "Form version not found" });
+      }
+      
+      res.json(formVersion);
+    } catch (error) {
+      console.error("Error fetching form version:", error);
+      res.status(500).json({ message: "Error fetching form version" });
+    }
+  });
+
+  // Publish the draft as a new immutable version and make it live
+  app.post("/api/admin/forms/:id/publish", requirePermission("forms", "update"), validateRequest(publishFormSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid form ID" });
+      }
+      
+      const form = await storage.getFormById(id);
+      if (!form) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      
+      const formSchema = await storage.getFormSchema(id);
+      if (!formSchema || formSchema.fields.length === 0) {
+        return res.status(400).json({ message: "Add at least one field before publishing" });
+      }
+      
+      // Drafts saved before the current rules may no longer be valid
+      const definition = formDefinitionSchema.safeParse({ fields: formSchema.fields, pages: formSchema.pages ?? [] });
+      if (!definition.success) {
+        return res.status(400).json({ message: "Fix the draft before publishing", errors: definition.error.errors });
+      }
+      
+      const formVersion = await storage.publishFormVersion(
+        id,
+        { fields: formSchema.fields, pages: formSchema.pages ?? [], ...formDraftDetails(form, formSchema) },
+        req.user?.id ?? null,
+        req.body.notes,
+      );
+      res.status(201).json(formVersion);
+    } catch (error) {
+      console.error("Error publishing form:", error);
+      res.status(500).json({ message: "Error publishing form" });
+    }
+  });
+
+  // Make an earlier version live again. The draft is left untouched.
+  app.post("/api/admin/forms/:id/versions/:versionId/rollback", requirePermission("forms", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const versionId = parseInt(req.params.versionId);
+      if (isNaN(id) || isNaN(versionId)) {
+        return res.status(400).json({ message: "Invalid form or version ID" });
+      }
+      
+      const formVersion = await storage.setLiveFormVersion(id, versionId);
+      if (!formVersion) {
+        return res.status(404).json({ message: "Form version not found" });
+      }
+      
+      res.json(formVersion);
+    } catch (error) {
+      console.error("Error rolling back form:", error);
+      res.status(500).json({ message: "Error rolling back form" });
+    }
+  });
+
   // Create form
-  app.post("/api/admin/forms", validateRequest(insertFormSchema), async (req, res) => {
+  app.post("/api/admin/forms", requirePermission("forms", "create"), validateRequest(insertFormSchema), async (req, res) => {
     try {
       const form = await storage.createForm(req.body);
       res.status(201).json(form);
@@ -304,20 +989,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Update form
-  app.patch("/api/admin/forms/:id", async (req, res) => {
+  // Update form. Name and description changes go to the draft and reach
+  // visitors when it is published; other settings apply immediately.
+  app.patch("/api/admin/forms/:id", requirePermission("forms", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
         return res.status(400).json({ message: "Invalid form ID" });
       }
       
-      const form = await storage.updateForm(id, req.body);
+      const { name, description, ...changes } = req.body ?? {};
+      const details = formDetailsSchema.safeParse({ name, description });
+      if (!details.success) {
+        return res.status(400).json({ errors: details.error.errors });
+      }
+      
+      const existing = await storage.getFormById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      
+      let formSchema = await storage.getFormSchema(id);
+      if (details.data.name !== undefined || details.data.description !== undefined) {
+        const draft = formDraftDetails(existing, formSchema);
+        formSchema = await storage.setFormDraftDetails(id, {
+          name: details.data.name ?? draft.name,
+          description: details.data.description !== undefined ? details.data.description : draft.description,
+        });
+      }
+      
+      const form = Object.keys(changes).length > 0 ? await storage.updateForm(id, changes) : existing;
       if (!form) {
         return res.status(404).json({ message: "Form not found" });
       }
       
-      res.json(form);
+      res.json({ ...form, ...formDraftDetails(form, formSchema) });
     } catch (error) {
       console.error("Error updating form:", error);
       res.status(500).json({ message: "Error updating form" });
@@ -325,7 +1031,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete form
-  app.delete("/api/admin/forms/:id", async (req, res) => {
+  app.delete("/api/admin/forms/:id", requirePermission("forms", "delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -346,7 +1052,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Campaigns API
   // Get all campaigns
-  app.get("/api/admin/campaigns", async (req, res) => {
+  app.get("/api/admin/campaigns", requirePermission("campaigns", "read"), async (req, res) => {
     try {
       const { 
         search, 
@@ -381,7 +1087,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get campaign by ID
-  app.get("/api/admin/campaigns/:id", async (req, res) => {
+  app.get("/api/admin/campaigns/:id", requirePermission("campaigns", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -401,7 +1107,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get active campaign
-  app.get("/api/admin/campaigns/active", async (req, res) => {
+  app.get("/api/admin/campaigns/active", requirePermission("campaigns", "read"), async (req, res) => {
     try {
       const campaign = await storage.getActiveCampaign();
       if (!campaign) {
@@ -416,7 +1122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create campaign
-  app.post("/api/admin/campaigns", validateRequest(insertCampaignSchema), async (req, res) => {
+  app.post("/api/admin/campaigns", requirePermission("campaigns", "create"), validateRequest(insertCampaignSchema), async (req, res) => {
     try {
       const campaign = await storage.createCampaign(req.body);
       res.status(201).json(campaign);
@@ -427,7 +1133,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update campaign
-  app.patch("/api/admin/campaigns/:id", async (req, res) => {
+  app.patch("/api/admin/campaigns/:id", requirePermission("campaigns", "update"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -447,7 +1153,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete campaign
-  app.delete("/api/admin/campaigns/:id", async (req, res) => {
+  app.delete("/api/admin/campaigns/:id", requirePermission("campaigns", "delete"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -468,7 +1174,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Ad Posts API
   // Get all ad posts for a campaign
-  app.get("/api/admin/campaigns/:id/ad-posts", async (req, res) => {
+  app.get("/api/admin/campaigns/:id/ad-posts", requirePermission("adPosts", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -484,7 +1190,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get ad post by ID
-  app.get("/api/admin/ad-posts/:id", async (req, res) => {
+  app.get("/api/admin/ad-posts/:id", requirePermission("adPosts", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -504,7 +1210,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all ad posts
-  app.get("/api/admin/ad-posts", async (req, res) => {
+  app.get("/api/admin/ad-posts", requirePermission("adPosts", "read"), async (req, res) => {
     try {
       const adPosts = await storage.getAllAdPosts();
       res.json(adPosts);
@@ -515,7 +1221,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get campaign performance
-  app.get("/api/admin/campaigns/:id/performance", async (req, res) => {
+  app.get("/api/admin/campaigns/:id/performance", requirePermission("campaigns", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -535,7 +1241,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Run a simulated social media post
-  app.post("/api/admin/simulate-ad-post", async (req, res) => {
+  app.post("/api/admin/simulate-ad-post", requirePermission("adPosts", "run"), async (req, res) => {
     try {
       const { platform } = req.body;
       if (!platform) {
@@ -560,7 +1266,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Run simulated posts on all platforms
-  app.post("/api/admin/run-all-ads", async (req, res) => {
+  app.post("/api/admin/run-all-ads", requirePermission("adPosts", "run"), async (req, res) => {
     try {
       const adPosts = await runAllSocialPosts();
       if (adPosts.length === 0) {
@@ -575,7 +1281,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Preview ad post content
-  app.post("/api/admin/preview-ad-content", async (req, res) => {
+  app.post("/api/admin/preview-ad-content", requirePermission("adPosts", "create"), async (req, res) => {
     try {
       const { message, platform } = req.body;
       if (!message || !platform) {
@@ -596,7 +1302,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get form embed code
-  app.get("/api/admin/forms/:id/embed", async (req, res) => {
+  app.get("/api/admin/forms/:id/embed", requirePermission("forms", "read"), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -624,7 +1330,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get public form data
-  app.get("/api/forms/:id", async (req, res) => {
+  app.get("/api/forms/:id", limitFormViewsByIp, async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       if (isNaN(id)) {
@@ -636,11 +1342,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Form not found" });
       }
       
+      // Visitors see the live version; forms that were never published have no fields yet
+      const liveVersion = await storage.getLiveFormVersion(id);
+      
       // Return only public data
       res.json({
         id: form.id,
-        name: form.name,
-        description: form.description,
+        name: liveVersion?.name ?? form.name,
+        description: liveVersion ? liveVersion.description : form.description,
+        version: liveVersion?.version ?? null,
+        fields: liveVersion?.fields ?? [],
+        pages: liveVersion?.pages ?? [],
+        // Sent back with the submission: a hidden field that must stay empty and
+        // a token recording when the form was loaded
+        honeypotField: HONEYPOT_FIELD,
+        fillToken: issueFillToken(form.id),
       });
     } catch (error) {
       console.error("Error fetching form:", error);
@@ -648,6 +1364,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Work out which pages and fields to show for the answers given so far, using
+  // the same rules as submission
+  app.post("/api/forms/:id/evaluate", limitFormViewsByIp, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid form ID" });
+      }
+      
+      const form = await storage.getFormById(id);
+      const liveVersion = form ? await storage.getLiveFormVersion(id) : null;
+      if (!form || !liveVersion) {
+        return res.status(404).json({ message: "Form not found" });
+      }
+      
+      const { visiblePages, visibleFields, errors } = evaluateForm(
+        { fields: liveVersion.fields, pages: liveVersion.pages ?? [] },
+        req.body?.answers ?? {},
+      );
+      
+      res.json({ visiblePages, visibleFields, errors });
+    } catch (error) {
+      console.error("Error evaluating form:", error);
+      res.status(500).json({ message: "Error evaluating form" });
+    }
+  });
+
   // Create HTTP server
   const httpServer = createServer(app);
   
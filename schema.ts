@@ -0,0 +1,451 @@
+import { pgTable, serial, integer, text, boolean, timestamp, varchar, json, jsonb, index, uniqueIndex, doublePrecision } from "drizzle-orm/pg-core";
+import type { ScoringConfig, ModelFeatureBuckets } from "./lead-scoring";
+import type { FormField, FormPage, LeadSubmission } from "./form-schema";
+import type { AssignmentConditions, AssignmentMember } from "./lead-assignment";
+import type { LeadBulkResult } from "./types";
+import type { LeadAttribution } from "./attribution";
+
+export interface ScoringModelMetrics {
+  samples: number;
+  positives: number;
+  accuracy: number;
+  logLoss: number;
+  iterations: number;
+}
+
+// Server-owned tables that extend the shared schema. These are created
+// idempotently at startup by ensureSchema() in migrate.ts.
+
+// Per-user account state kept alongside the shared users table
+export const accountStatus = pgTable("account_status", {
+  userId: integer("user_id").primaryKey(),
+  active: boolean("active").notNull().default(true),
+  mustResetPassword: boolean("must_reset_password").notNull().default(false),
+  deactivatedAt: timestamp("deactivated_at"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// One-time tokens for invitations and password resets (only the hash is stored)
+export const userTokens = pgTable("user_tokens", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  purpose: text("purpose").notNull(), // 'invite' | 'password_reset'
+  userId: integer("user_id"),
+  email: text("email"),
+  role: text("role"),
+  fullName: text("full_name"),
+  createdBy: integer("created_by"),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Express sessions, in the layout connect-pg-simple expects
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => ({
+  expireIdx: index("IDX_session_expire").on(table.expire),
+}));
+
+// Failed login tracking for progressive lockout, keyed by "user:<name>" or "ip:<addr>"
+export const loginAttempts = pgTable("login_attempts", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  lastFailureAt: timestamp("last_failure_at").notNull().defaultNow(),
+});
+
+// Hashed API keys for machine-to-machine access
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull().unique(),
+  keyHash: text("key_hash").notNull(),
+  scopes: text("scopes").array().notNull(),
+  createdBy: integer("created_by"),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  lastUsedIp: text("last_used_ip"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Versioned lead scoring rule sets; exactly one is active at a time
+export const scoringRuleSets = pgTable("scoring_rule_sets", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  name: text("name").notNull(),
+  notes: text("notes"),
+  config: jsonb("config").$type<ScoringConfig>().notNull(),
+  active: boolean("active").notNull().default(false),
+  createdBy: integer("created_by"),
+  activatedAt: timestamp("activated_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Lead score history; a snapshot is written whenever a lead's score, label or rule version changes
+export const leadScoreSnapshots = pgTable("lead_score_snapshots", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  score: integer("score").notNull(),
+  label: text("label").notNull(),
+  breakdown: jsonb("breakdown").$type<Record<string, number>>().notNull(),
+  ruleVersion: integer("rule_version"),
+  modelVersion: integer("model_version"),
+  scoredAt: timestamp("scored_at").notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index("lead_score_snapshots_lead_idx").on(table.leadId, table.scoredAt),
+}));
+
+// Server-side details recorded for each lead alongside the shared leads table
+export const leadDetails = pgTable("lead_details", {
+  leadId: integer("lead_id").primaryKey(),
+  formId: integer("form_id"),
+  campaignId: integer("campaign_id"),
+  // Normalized contact details used for duplicate detection
+  normalizedPhone: text("normalized_phone"),
+  normalizedEmail: text("normalized_email"),
+  // Answers to form fields that are not mapped to a lead column
+  customAttributes: jsonb("custom_attributes").$type<Record<string, unknown>>(),
+  // The published form version the lead answered
+  formVersionId: integer("form_version_id"),
+  // First-touch attribution captured with the submission
+  utmSource: text("utm_source"),
+  utmMedium: text("utm_medium"),
+  utmCampaign: text("utm_campaign"),
+  utmTerm: text("utm_term"),
+  utmContent: text("utm_content"),
+  referrer: text("referrer"),
+  landingUrl: text("landing_url"),
+  clickId: text("click_id"),
+  adPostId: integer("ad_post_id"),
+  // Counselor who owns the lead
+  ownerId: integer("owner_id"),
+  assignedAt: timestamp("assigned_at"),
+  // Free-form labels, lowercase
+  tags: text("tags").array().notNull().default([]),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  adPostIdx: index("lead_details_ad_post_idx").on(table.adPostId),
+  ownerIdx: index("lead_details_owner_idx").on(table.ownerId),
+  formIdx: index("lead_details_form_idx").on(table.formId),
+  campaignIdx: index("lead_details_campaign_idx").on(table.campaignId),
+  phoneIdx: index("lead_details_phone_idx").on(table.normalizedPhone),
+  emailIdx: index("lead_details_email_idx").on(table.normalizedEmail),
+}));
+
+// Draft fields and pages for each form, in display order, and the version
+// currently served to visitors
+export const formSchemas = pgTable("form_schemas", {
+  formId: integer("form_id").primaryKey(),
+  fields: jsonb("fields").$type<FormField[]>().notNull(),
+  pages: jsonb("pages").$type<FormPage[]>().notNull().default([]),
+  // Name and description to publish with the next version; a null name means the form's own
+  name: text("name"),
+  description: text("description"),
+  liveVersionId: integer("live_version_id"),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Immutable snapshot of a form taken each time it is published
+export const formVersions = pgTable("form_versions", {
+  id: serial("id").primaryKey(),
+  formId: integer("form_id").notNull(),
+  version: integer("version").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  fields: jsonb("fields").$type<FormField[]>().notNull(),
+  pages: jsonb("pages").$type<FormPage[]>().notNull().default([]),
+  notes: text("notes"),
+  publishedBy: integer("published_by"),
+  publishedAt: timestamp("published_at").notNull().defaultNow(),
+}, (table) => ({
+  formVersionIdx: uniqueIndex("form_versions_form_version_idx").on(table.formId, table.version),
+}));
+
+// Partially completed public form, autosaved under an anonymous token until it
+// is submitted or converted to a lead by an admin
+export const leadDrafts = pgTable("lead_drafts", {
+  id: serial("id").primaryKey(),
+  tokenHash: text("token_hash").notNull().unique(),
+  formId: integer("form_id").notNull(),
+  formVersionId: integer("form_version_id"),
+  answers: jsonb("answers").$type<Record<string, unknown>>().notNull(),
+  source: text("source"),
+  // Where the visitor came from, as of their first autosave
+  attribution: jsonb("attribution").$type<LeadAttribution>(),
+  normalizedPhone: text("normalized_phone"),
+  // Last visible field answered and the first visible field left blank
+  lastFieldKey: text("last_field_key"),
+  dropOffFieldKey: text("drop_off_field_key"),
+  status: text("status").notNull().default("in_progress"), // 'in_progress' | 'submitted' | 'converted'
+  leadId: integer("lead_id"),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => ({
+  formStatusIdx: index("lead_drafts_form_status_idx").on(table.formId, table.status),
+}));
+
+// Fixed-window request counters for public endpoints
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(),
+  windowStart: timestamp("window_start").notNull().defaultNow(),
+  count: integer("count").notNull().default(0),
+});
+
+// Suspected spam held back from the leads table until an admin reviews it
+export const quarantinedSubmissions = pgTable("quarantined_submissions", {
+  id: serial("id").primaryKey(),
+  formId: integer("form_id"),
+  submission: jsonb("submission").$type<LeadSubmission>().notNull(),
+  reasons: text("reasons").array().notNull(),
+  ipHash: text("ip_hash"),
+  userAgent: text("user_agent"),
+  status: text("status").notNull().default("pending"), // 'pending' | 'released' | 'rejected'
+  leadId: integer("lead_id"),
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  statusIdx: index("quarantined_submissions_status_idx").on(table.status),
+}));
+
+// Short tracking link for an ad post, redirecting to the campaign's form
+export const adPostLinks = pgTable("ad_post_links", {
+  id: serial("id").primaryKey(),
+  adPostId: integer("ad_post_id").notNull().unique(),
+  code: text("code").notNull().unique(),
+  targetUrl: text("target_url").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per visit to an ad post's tracking link
+export const adPostClicks = pgTable("ad_post_clicks", {
+  id: serial("id").primaryKey(),
+  linkId: integer("link_id").notNull(),
+  adPostId: integer("ad_post_id").notNull(),
+  userAgent: text("user_agent"),
+  referrer: text("referrer"),
+  ipHash: text("ip_hash"),
+  clickedAt: timestamp("clicked_at").notNull().defaultNow(),
+}, (table) => ({
+  adPostIdx: index("ad_post_clicks_ad_post_idx").on(table.adPostId, table.clickedAt),
+}));
+
+// Admin-defined lead pipeline stages; a lead's status holds its stage key
+export const pipelineStages = pgTable("pipeline_stages", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  // Whether reaching this stage means the lead was won or lost, used for conversion and model training
+  outcome: text("outcome"), // 'won' | 'lost' | null
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Allowed moves between stages, and the fields a move must record
+export const pipelineTransitions = pgTable("pipeline_transitions", {
+  id: serial("id").primaryKey(),
+  fromStage: text("from_stage").notNull(),
+  toStage: text("to_stage").notNull(),
+  requiredFields: jsonb("required_fields").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  pairIdx: uniqueIndex("pipeline_transitions_pair_idx").on(table.fromStage, table.toStage),
+}));
+
+// Append-only log of lead status changes
+export const leadStatusHistory = pgTable("lead_status_history", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  // Values recorded for the transition's required fields, e.g. a lost reason
+  fields: jsonb("fields").$type<Record<string, unknown>>().notNull().default({}),
+  note: text("note"),
+  changedBy: integer("changed_by"),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index("lead_status_history_lead_idx").on(table.leadId, table.changedAt),
+}));
+
+// Rules that pick an owner for new leads. Active rules are tried in position
+// order; the first whose conditions match assigns the lead to one of its members.
+export const assignmentRules = pgTable("assignment_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+  active: boolean("active").notNull().default(true),
+  conditions: jsonb("conditions").$type<AssignmentConditions>().notNull().default({}),
+  strategy: text("strategy").notNull().default("round_robin"), // 'round_robin' | 'weighted'
+  members: jsonb("members").$type<AssignmentMember[]>().notNull(),
+  // Number of round-robin assignments made, used to pick the next member
+  cursor: integer("cursor").notNull().default(0),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Log of lead owner changes, by an assignment rule or a user
+export const leadAssignments = pgTable("lead_assignments", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  ownerId: integer("owner_id"),
+  previousOwnerId: integer("previous_owner_id"),
+  ruleId: integer("rule_id"),
+  assignedBy: integer("assigned_by"),
+  assignedAt: timestamp("assigned_at").notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index("lead_assignments_lead_idx").on(table.leadId, table.assignedAt),
+}));
+
+// Calls, WhatsApp conversations and notes logged by counselors
+export const leadCommunications = pgTable("lead_communications", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  type: text("type").notNull(), // 'call' | 'whatsapp' | 'note'
+  direction: text("direction"), // 'inbound' | 'outbound'
+  // Calls only
+  outcome: text("outcome"),
+  durationSeconds: integer("duration_seconds"),
+  body: text("body"),
+  occurredAt: timestamp("occurred_at").notNull().defaultNow(),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index("lead_communications_lead_idx").on(table.leadId, table.occurredAt),
+}));
+
+// Follow-up tasks on a lead, e.g. a call back at an agreed time
+export const leadTasks = pgTable("lead_tasks", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  type: text("type").notNull(), // 'call_back' | 'send_brochure' | 'follow_up' | 'other'
+  title: text("title").notNull(),
+  notes: text("notes"),
+  dueAt: timestamp("due_at").notNull(),
+  assigneeId: integer("assignee_id"),
+  status: text("status").notNull().default("open"), // 'open' | 'done' | 'cancelled'
+  // Set by the overdue job when an open task passes its due time
+  overdueAt: timestamp("overdue_at"),
+  completedAt: timestamp("completed_at"),
+  completedBy: integer("completed_by"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index("lead_tasks_lead_idx").on(table.leadId),
+  statusDueIdx: index("lead_tasks_status_due_idx").on(table.status, table.dueAt),
+  assigneeIdx: index("lead_tasks_assignee_idx").on(table.assigneeId, table.status),
+}));
+
+// Bulk actions applied to many leads at once, with the outcome for each lead.
+// Deleted leads are kept in undo_data until the undo window closes.
+export const leadBulkJobs = pgTable("lead_bulk_jobs", {
+  id: serial("id").primaryKey(),
+  action: text("action").notNull(), // 'status' | 'assign' | 'tag' | 'delete'
+  params: jsonb("params").$type<Record<string, unknown>>().notNull(),
+  total: integer("total").notNull(),
+  succeeded: integer("succeeded").notNull(),
+  failed: integer("failed").notNull(),
+  results: jsonb("results").$type<LeadBulkResult[]>().notNull(),
+  undoData: jsonb("undo_data").$type<Record<string, unknown>[]>(),
+  undoExpiresAt: timestamp("undo_expires_at"),
+  undoneAt: timestamp("undone_at"),
+  undoneBy: integer("undone_by"),
+  createdBy: integer("created_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Repeat submissions and merged leads recorded against the lead they belong to
+export const leadTouchpoints = pgTable("lead_touchpoints", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  type: text("type").notNull(), // 'submission' | 'merge'
+  source: text("source"),
+  formId: integer("form_id"),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  leadIdx: index("lead_touchpoints_lead_idx").on(table.leadId),
+}));
+
+// Suspected duplicate pairs awaiting admin review
+export const leadDuplicateCandidates = pgTable("lead_duplicate_candidates", {
+  id: serial("id").primaryKey(),
+  leadId: integer("lead_id").notNull(),
+  duplicateLeadId: integer("duplicate_lead_id").notNull(),
+  reasons: text("reasons").array().notNull(),
+  similarity: doublePrecision("similarity"),
+  status: text("status").notNull().default("pending"), // 'pending' | 'merged' | 'dismissed'
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Logistic regression models trained on lead outcomes; at most one is active
+export const scoringModels = pgTable("scoring_models", {
+  id: serial("id").primaryKey(),
+  version: integer("version").notNull().unique(),
+  intercept: doublePrecision("intercept").notNull(),
+  weights: jsonb("weights").$type<Record<string, number>>().notNull(),
+  // Rule set bands the features were bucketed by when training
+  buckets: jsonb("buckets").$type<ModelFeatureBuckets>(),
+  metrics: jsonb("metrics").$type<ScoringModelMetrics>().notNull(),
+  active: boolean("active").notNull().default(false),
+  trainedBy: integer("trained_by"),
+  activatedAt: timestamp("activated_at"),
+  trainedAt: timestamp("trained_at").notNull().defaultNow(),
+});
+
+export type AccountStatus = typeof accountStatus.$inferSelect;
+export type UserToken = typeof userTokens.$inferSelect;
+export type UserTokenInsert = typeof userTokens.$inferInsert;
+export type SessionRow = typeof sessions.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeyInsert = typeof apiKeys.$inferInsert;
+export type ScoringRuleSet = typeof scoringRuleSets.$inferSelect;
+export type ScoringRuleSetInsert = typeof scoringRuleSets.$inferInsert;
+export type LeadScoreSnapshot = typeof leadScoreSnapshots.$inferSelect;
+export type LeadScoreSnapshotInsert = typeof leadScoreSnapshots.$inferInsert;
+export type LeadDetails = typeof leadDetails.$inferSelect;
+export type LeadDetailsInsert = typeof leadDetails.$inferInsert;
+export type ScoringModel = typeof scoringModels.$inferSelect;
+export type ScoringModelInsert = typeof scoringModels.$inferInsert;
+export type LeadTouchpoint = typeof leadTouchpoints.$inferSelect;
+export type LeadTouchpointInsert = typeof leadTouchpoints.$inferInsert;
+export type LeadDuplicateCandidate = typeof leadDuplicateCandidates.$inferSelect;
+export type LeadDuplicateCandidateInsert = typeof leadDuplicateCandidates.$inferInsert;
+export type FormSchema = typeof formSchemas.$inferSelect;
+export type FormVersion = typeof formVersions.$inferSelect;
+export type FormVersionInsert = typeof formVersions.$inferInsert;
+export type LeadDraft = typeof leadDrafts.$inferSelect;
+export type LeadDraftInsert = typeof leadDrafts.$inferInsert;
+export type QuarantinedSubmission = typeof quarantinedSubmissions.$inferSelect;
+export type QuarantinedSubmissionInsert = typeof quarantinedSubmissions.$inferInsert;
+export type AdPostLink = typeof adPostLinks.$inferSelect;
+export type AdPostLinkInsert = typeof adPostLinks.$inferInsert;
+export type AdPostClick = typeof adPostClicks.$inferSelect;
+export type AdPostClickInsert = typeof adPostClicks.$inferInsert;
+export type PipelineStage = typeof pipelineStages.$inferSelect;
+export type PipelineStageInsert = typeof pipelineStages.$inferInsert;
+export type PipelineTransition = typeof pipelineTransitions.$inferSelect;
+export type PipelineTransitionInsert = typeof pipelineTransitions.$inferInsert;
+export type LeadStatusHistoryEntry = typeof leadStatusHistory.$inferSelect;
+export type LeadStatusHistoryInsert = typeof leadStatusHistory.$inferInsert;
+export type AssignmentRule = typeof assignmentRules.$inferSelect;
+export type AssignmentRuleInsert = typeof assignmentRules.$inferInsert;
+export type LeadAssignment = typeof leadAssignments.$inferSelect;
+export type LeadAssignmentInsert = typeof leadAssignments.$inferInsert;
+export type LeadCommunication = typeof leadCommunications.$inferSelect;
+export type LeadCommunicationInsert = typeof leadCommunications.$inferInsert;
+export type LeadTask = typeof leadTasks.$inferSelect;
+export type LeadTaskInsert = typeof leadTasks.$inferInsert;
+export type LeadBulkJob = typeof leadBulkJobs.$inferSelect;
+export type LeadBulkJobInsert = typeof leadBulkJobs.$inferInsert;
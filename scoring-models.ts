@@ -0,0 +1,318 @@
+import type { Express } from "express";
+import cron from "node-cron";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import {
+  extractLeadFeatures,
+  getActiveScoringConfig,
+  setActiveScoringModel,
+  modelFeatureBuckets,
+  type LeadScoringModel,
+  type ModelFeatureBuckets,
+} from "./lead-scoring";
+import { rescoreAllLeads } from "./lead-rescoring";
+import type { ScoringModel, ScoringModelMetrics } from "./schema";
+import { log } from "./vite";
+
+const TRAINING_BATCH_SIZE = 1000;
+
+// Training needs enough examples of both outcomes to be meaningful
+const MIN_SAMPLES = 50;
+const MIN_SAMPLES_PER_CLASS = 10;
+
+// Features seen fewer times than this are dropped to avoid fitting noise
+const MIN_FEATURE_COUNT = 5;
+
+// Gradient descent settings
+const LEARNING_RATE = 0.5;
+const L2_PENALTY = 0.01;
+const MAX_ITERATIONS = 500;
+const CONVERGENCE_TOLERANCE = 1e-6;
+
+let trainingInProgress = false;
+
+export class TrainingDataError extends Error {}
+
+/**
+ * Logistic function
+ * @param z Log-odds
+ * @returns Probability
+ */
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Load labelled training samples as sparse feature lists. Leads in a pipeline
+ * stage marked won are successes and those in a stage marked lost failures.
+ * Recency is measured at the lead's last update, which is when its outcome was recorded.
+ * @param buckets The bands to bucket features by
+ * @returns Feature keys and outcome per lead
+ */
+async function loadTrainingSamples(buckets: ModelFeatureBuckets): Promise<Array<{ features: string[]; outcome: number }>> {
+  const samples: Array<{ features: string[]; outcome: number }> = [];
+
+  const stages = await storage.getPipelineStages();
+  const wonStages = new Set(stages.filter(stage => stage.outcome === 'won').map(stage => stage.key));
+  const lostStages = stages.filter(stage => stage.outcome === 'lost').map(stage => stage.key);
+  if (wonStages.size === 0 || lostStages.length === 0) {
+    throw new TrainingDataError("Mark at least one pipeline stage as won and one as lost to train a model");
+  }
+
+  let afterId = 0;
+  while (true) {
+    const batch = await storage.getTrainingLeadsAfterId([...Array.from(wonStages), ...lostStages], afterId, TRAINING_BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const { lead, details } of batch) {
+      const asOf = lead.updatedAt ? new Date(lead.updatedAt) : new Date();
+      samples.push({
+        features: extractLeadFeatures(lead, details ?? {}, buckets, asOf).map(f => f.feature),
+        outcome: lead.status !== null && wonStages.has(lead.status) ? 1 : 0,
+      });
+    }
+
+    afterId = batch[batch.length - 1].lead.id;
+  }
+
+  return samples;
+}
+
+/**
+ * Fit an L2-regularized logistic regression with batch gradient descent
+ * @param samples Sparse training samples
+ * @returns Intercept, per-feature weights and training metrics
+ */
+function fitLogisticRegression(samples: Array<{ features: string[]; outcome: number }>): {
+  intercept: number;
+  weights: Record<string, number>;
+  metrics: ScoringModelMetrics;
+} {
+  // Index the features that occur often enough
+  const featureCounts = new Map<string, number>();
+  for (const sample of samples) {
+    for (const feature of sample.features) {
+      featureCounts.set(feature, (featureCounts.get(feature) ?? 0) + 1);
+    }
+  }
+  const featureNames = Array.from(featureCounts.entries())
+    .filter(([, count]) => count >= MIN_FEATURE_COUNT)
+    .map(([feature]) => feature);
+  const featureIndex = new Map(featureNames.map((feature, i) => [feature, i]));
+
+  const rows = samples.map(sample => ({
+    indices: sample.features.map(f => featureIndex.get(f)).filter((i): i is number => i !== undefined),
+    outcome: sample.outcome,
+  }));
+
+  const n = rows.length;
+  const positives = rows.filter(row => row.outcome === 1).length;
+
+  // Start the intercept at the base rate so training converges faster
+  let intercept = Math.log(positives / (n - positives));
+  const weights = new Array<number>(featureNames.length).fill(0);
+
+  let previousLoss = Infinity;
+  let iterations = 0;
+  for (; iterations < MAX_ITERATIONS; iterations++) {
+    const gradient = new Array<number>(featureNames.length).fill(0);
+    let interceptGradient = 0;
+    let loss = 0;
+
+    for (const row of rows) {
+      let z = intercept;
+      for (const i of row.indices) z += weights[i];
+      const p = sigmoid(z);
+      const error = p - row.outcome;
+
+      interceptGradient += error;
+      for (const i of row.indices) gradient[i] += error;
+      loss -= row.outcome * Math.log(Math.max(p, 1e-12)) + (1 - row.outcome) * Math.log(Math.max(1 - p, 1e-12));
+    }
+
+    loss /= n;
+    intercept -= LEARNING_RATE * (interceptGradient / n);
+    for (let i = 0; i < weights.length; i++) {
+      weights[i] -= LEARNING_RATE * (gradient[i] / n + L2_PENALTY * weights[i]);
+    }
+
+    if (Math.abs(previousLoss - loss) < CONVERGENCE_TOLERANCE) break;
+    previousLoss = loss;
+  }
+
+  // Training-set metrics
+  let correct = 0;
+  let logLoss = 0;
+  for (const row of rows) {
+    let z = intercept;
+    for (const i of row.indices) z += weights[i];
+    const p = sigmoid(z);
+    if ((p >= 0.5 ? 1 : 0) === row.outcome) correct++;
+    logLoss -= row.outcome * Math.log(Math.max(p, 1e-12)) + (1 - row.outcome) * Math.log(Math.max(1 - p, 1e-12));
+  }
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return {
+    intercept: round(intercept),
+    weights: Object.fromEntries(featureNames.map((feature, i) => [feature, round(weights[i])])),
+    metrics: {
+      samples: n,
+      positives,
+      accuracy: round(correct / n),
+      logLoss: round(logLoss / n),
+      iterations,
+    },
+  };
+}
+
+/**
+ * Train a new scoring model from lead outcomes and store it (inactive)
+ * @param trainedBy The user who started training, if any
+ * @returns The stored model, or null if training was already running
+ */
+export async function trainScoringModel(trainedBy?: number): Promise<ScoringModel | null> {
+  if (trainingInProgress) return null;
+  trainingInProgress = true;
+
+  try {
+    // The model keeps the bands it was trained with, so later rule sets cannot change its features
+    const buckets = modelFeatureBuckets(getActiveScoringConfig().config);
+    const samples = await loadTrainingSamples(buckets);
+    const positives = samples.filter(s => s.outcome === 1).length;
+    const negatives = samples.length - positives;
+
+    if (samples.length < MIN_SAMPLES || positives < MIN_SAMPLES_PER_CLASS || negatives < MIN_SAMPLES_PER_CLASS) {
+      throw new TrainingDataError(
+        `Not enough outcomes to train: need ${MIN_SAMPLES} leads with at least ${MIN_SAMPLES_PER_CLASS} ` +
+        `won and ${MIN_SAMPLES_PER_CLASS} lost (have ${positives} and ${negatives})`
+      );
+    }
+
+    const { intercept, weights, metrics } = fitLogisticRegression(samples);
+    const model = await storage.createScoringModel({
+      intercept,
+      weights,
+      buckets,
+      metrics,
+      trainedBy: trainedBy ?? null,
+    });
+
+    log(`Trained scoring model v${model.version} on ${metrics.samples} leads (accuracy ${metrics.accuracy})`, "scoring");
+    return model;
+  } finally {
+    trainingInProgress = false;
+  }
+}
+
+/**
+ * Shape a stored model for the scorer
+ * @param model The stored model
+ * @returns The model's version, coefficients and buckets
+ */
+function toLeadScoringModel(model: ScoringModel): LeadScoringModel {
+  return { version: model.version, intercept: model.intercept, weights: model.weights, buckets: model.buckets };
+}
+
+/**
+ * Load the active model (if any) into the scorer
+ */
+export async function loadActiveScoringModel(): Promise<void> {
+  const model = await storage.getActiveScoringModel();
+  setActiveScoringModel(model ? toLeadScoringModel(model) : null);
+}
+
+/**
+ * Set up scoring model training and activation routes
+ * @param app Express application
+ */
+export async function setupScoringModels(app: Express): Promise<void> {
+  try {
+    await loadActiveScoringModel();
+  } catch (error) {
+    console.error("Error loading scoring model, using rules:", error);
+  }
+
+  // Pick up activations made by other instances
+  cron.schedule("* * * * *", async () => {
+    try {
+      await loadActiveScoringModel();
+    } catch (error) {
+      console.error("Error refreshing scoring model:", error);
+    }
+  });
+
+  // Retrain weekly on Sunday night; new models are not activated automatically
+  cron.schedule("0 2 * * 0", async () => {
+    try {
+      await trainScoringModel();
+    } catch (error) {
+      console.error("Error training scoring model:", error);
+    }
+  });
+
+  // List trained models
+  app.get("/api/admin/scoring/models", requirePermission("scoring", "read"), async (req, res) => {
+    try {
+      const models = await storage.getAllScoringModels();
+      res.json(models);
+    } catch (error) {
+      console.error("Error fetching scoring models:", error);
+      res.status(500).json({ message: "Error fetching scoring models" });
+    }
+  });
+
+  // Train a new model from current outcomes
+  app.post("/api/admin/scoring/models/train", requirePermission("scoring", "create"), async (req, res) => {
+    try {
+      const model = await trainScoringModel(req.user?.id);
+      if (!model) {
+        return res.status(409).json({ message: "Training is already in progress" });
+      }
+
+      res.status(201).json(model);
+    } catch (error) {
+      if (error instanceof TrainingDataError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error training scoring model:", error);
+      res.status(500).json({ message: "Error training scoring model" });
+    }
+  });
+
+  // Score leads with a trained model
+  app.post("/api/admin/scoring/models/:id/activate", requirePermission("scoring", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid model ID" });
+      }
+
+      const model = await storage.activateScoringModel(id);
+      if (!model) {
+        return res.status(404).json({ message: "Model not found" });
+      }
+
+      setActiveScoringModel(toLeadScoringModel(model));
+      rescoreAllLeads().catch(error => console.error("Error rescoring leads after model activation:", error));
+
+      res.json(model);
+    } catch (error) {
+      console.error("Error activating scoring model:", error);
+      res.status(500).json({ message: "Error activating scoring model" });
+    }
+  });
+
+  // Go back to rule-based scoring
+  app.post("/api/admin/scoring/models/deactivate", requirePermission("scoring", "update"), async (req, res) => {
+    try {
+      await storage.deactivateScoringModels();
+      setActiveScoringModel(null);
+      rescoreAllLeads().catch(error => console.error("Error rescoring leads after model deactivation:", error));
+
+      res.json({ mode: "rules" });
+    } catch (error) {
+      console.error("Error deactivating scoring models:", error);
+      res.status(500).json({ message: "Error deactivating scoring models" });
+    }
+  });
+}
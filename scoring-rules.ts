@@ -0,0 +1,202 @@
+import type { Express } from "express";
+import { z } from "zod";
+import cron from "node-cron";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import {
+  scoringConfigSchema,
+  defaultScoringConfig,
+  setActiveScoringConfig,
+  getActiveScoringConfig,
+} from "./lead-scoring";
+import { rescoreAllLeads } from "./lead-rescoring";
+
+const createRuleSetSchema = z.object({
+  name: z.string().min(1),
+  notes: z.string().optional(),
+  config: scoringConfigSchema,
+});
+
+const updateRuleSetSchema = z.object({
+  name: z.string().min(1).optional(),
+  notes: z.string().optional(),
+  config: scoringConfigSchema.optional(),
+});
+
+/**
+ * Load the active rule set from the database into the scorer, seeding
+ * version 1 from the built-in defaults the first time
+ */
+export async function loadActiveScoringRules(): Promise<void> {
+  let ruleSet = await storage.getActiveScoringRuleSet();
+
+  if (!ruleSet) {
+    const existing = await storage.getAllScoringRuleSets();
+    if (existing.length === 0) {
+      const seeded = await storage.createScoringRuleSet({
+        name: "Default rules",
+        notes: "Seeded from the built-in scoring rules",
+        config: defaultScoringConfig,
+      });
+      ruleSet = await storage.activateScoringRuleSet(seeded.id);
+    }
+  }
+
+  const parsed = ruleSet ? scoringConfigSchema.safeParse(ruleSet.config) : null;
+  if (ruleSet && parsed?.success) {
+    setActiveScoringConfig(parsed.data, ruleSet.version);
+  } else {
+    if (ruleSet) {
+      console.error(`Active scoring rule set v${ruleSet.version} is invalid, using defaults`);
+    }
+    setActiveScoringConfig(defaultScoringConfig, null);
+  }
+}
+
+/**
+ * Set up scoring rule set management routes
+ * @param app Express application
+ */
+export async function setupScoringRules(app: Express): Promise<void> {
+  try {
+    await loadActiveScoringRules();
+  } catch (error) {
+    console.error("Error loading scoring rules, using defaults:", error);
+  }
+
+  // Pick up activations made by other instances
+  cron.schedule("* * * * *", async () => {
+    try {
+      await loadActiveScoringRules();
+    } catch (error) {
+      console.error("Error refreshing scoring rules:", error);
+    }
+  });
+
+  // List rule set versions
+  app.get("/api/admin/scoring/rule-sets", requirePermission("scoring", "read"), async (req, res) => {
+    try {
+      const ruleSets = await storage.getAllScoringRuleSets();
+      res.json(ruleSets);
+    } catch (error) {
+      console.error("Error fetching scoring rule sets:", error);
+      res.status(500).json({ message: "Error fetching scoring rule sets" });
+    }
+  });
+
+  // Get the active rule set
+  app.get("/api/admin/scoring/rule-sets/active", requirePermission("scoring", "read"), async (req, res) => {
+    try {
+      const ruleSet = await storage.getActiveScoringRuleSet();
+      if (!ruleSet) {
+        const { config } = getActiveScoringConfig();
+        return res.json({ id: null, version: null, name: "Built-in defaults", config, active: true });
+      }
+
+      res.json(ruleSet);
+    } catch (error) {
+      console.error("Error fetching active scoring rule set:", error);
+      res.status(500).json({ message: "Error fetching active scoring rule set" });
+    }
+  });
+
+  // Get a rule set by ID
+  app.get("/api/admin/scoring/rule-sets/:id", requirePermission("scoring", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid rule set ID" });
+      }
+
+      const ruleSet = await storage.getScoringRuleSetById(id);
+      if (!ruleSet) {
+        return res.status(404).json({ message: "Rule set not found" });
+      }
+
+      res.json(ruleSet);
+    } catch (error) {
+      console.error("Error fetching scoring rule set:", error);
+      res.status(500).json({ message: "Error fetching scoring rule set" });
+    }
+  });
+
+  // Create a new rule set version (inactive until activated)
+  app.post("/api/admin/scoring/rule-sets", requirePermission("scoring", "create"), async (req, res) => {
+    try {
+      const parsed = createRuleSetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const ruleSet = await storage.createScoringRuleSet({
+        ...parsed.data,
+        createdBy: req.user?.id ?? null,
+      });
+      res.status(201).json(ruleSet);
+    } catch (error) {
+      console.error("Error creating scoring rule set:", error);
+      res.status(500).json({ message: "Error creating scoring rule set" });
+    }
+  });
+
+  // Edit a rule set that has never been activated
+  app.patch("/api/admin/scoring/rule-sets/:id", requirePermission("scoring", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid rule set ID" });
+      }
+
+      const parsed = updateRuleSetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const existing = await storage.getScoringRuleSetById(id);
+      if (!existing) {
+        return res.status(404).json({ message: "Rule set not found" });
+      }
+      if (existing.activatedAt) {
+        return res.status(409).json({ message: "Rule sets that have been activated cannot be edited. Create a new version instead." });
+      }
+
+      // Only updates while unactivated, so a concurrent delete or activation leaves it unchanged
+      const ruleSet = await storage.updateScoringRuleSet(id, parsed.data);
+      if (!ruleSet) {
+        return (await storage.getScoringRuleSetById(id))
+          ? res.status(409).json({ message: "Rule sets that have been activated cannot be edited. Create a new version instead." })
+          : res.status(404).json({ message: "Rule set not found" });
+      }
+
+      res.json(ruleSet);
+    } catch (error) {
+      console.error("Error updating scoring rule set:", error);
+      res.status(500).json({ message: "Error updating scoring rule set" });
+    }
+  });
+
+  // Activate a rule set version
+  app.post("/api/admin/scoring/rule-sets/:id/activate", requirePermission("scoring", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid rule set ID" });
+      }
+
+      const ruleSet = await storage.activateScoringRuleSet(id);
+      if (!ruleSet) {
+        return res.status(404).json({ message: "Rule set not found" });
+      }
+
+      setActiveScoringConfig(ruleSet.config, ruleSet.version);
+
+      // Refresh stored scores under the new rules in the background
+      rescoreAllLeads().catch(error => console.error("Error rescoring leads after activation:", error));
+
+      res.json(ruleSet);
+    } catch (error) {
+      console.error("Error activating scoring rule set:", error);
+      res.status(500).json({ message: "Error activating scoring rule set" });
+    }
+  });
+}
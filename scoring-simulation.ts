@@ -0,0 +1,143 @@
+import { storage } from "./storage";
+import { scoreLead, getActiveScoringConfig, getActiveScoringModel, type ScoringConfig } from "./lead-scoring";
+import type { AdminLeadFilters, ScoreLabel } from "./types";
+
+const SIMULATION_BATCH_SIZE = 500;
+
+// Cap on the number of changed leads listed individually in the result
+const MAX_CHANGED_LEADS = 100;
+
+interface ScoreDistribution {
+  labels: Record<ScoreLabel, number>;
+  averageScore: number;
+  factorAverages: Record<string, number>;
+}
+
+export interface SimulationResult {
+  leadCount: number;
+  truncated: boolean;
+  currentRuleVersion: number | null;
+  // The trained model scoring leads, if one is active
+  currentModelVersion: number | null;
+  current: ScoreDistribution;
+  candidate: ScoreDistribution;
+  // Counts of leads moving between labels, keyed like "Warm->Hot"
+  labelShifts: Record<string, number>;
+  changedLabelCount: number;
+  changedLeads: Array<{
+    id: number;
+    currentScore: number;
+    currentLabel: string;
+    candidateScore: number;
+    candidateLabel: string;
+  }>;
+}
+
+/**
+ * Accumulates scores into a distribution
+ */
+class DistributionBuilder {
+  private labels: Record<ScoreLabel, number> = { Hot: 0, Warm: 0, Cold: 0 };
+  private scoreTotal = 0;
+  private factorTotals: Record<string, number> = {};
+  private count = 0;
+
+  add(score: number, label: string, breakdown: Record<string, number>): void {
+    this.labels[label as ScoreLabel] = (this.labels[label as ScoreLabel] ?? 0) + 1;
+    this.scoreTotal += score;
+    for (const [factor, points] of Object.entries(breakdown)) {
+      this.factorTotals[factor] = (this.factorTotals[factor] ?? 0) + points;
+    }
+    this.count++;
+  }
+
+  build(): ScoreDistribution {
+    const average = (total: number) => this.count > 0 ? Math.round((total / this.count) * 100) / 100 : 0;
+    return {
+      labels: this.labels,
+      averageScore: average(this.scoreTotal),
+      factorAverages: Object.fromEntries(
+        Object.entries(this.factorTotals).map(([factor, total]) => [factor, average(total)])
+      ),
+    };
+  }
+}
+
+/**
+ * Score the leads matching a filter the way production scores them now (the
+ * active model, or else the active rules) and under a candidate configuration,
+ * and compare the results. Nothing is persisted.
+ * @param candidate The candidate scoring configuration
+ * @param filters Which leads to include
+ * @param maxLeads Upper bound on the number of leads scored
+ * @returns Distribution comparison
+ */
+export async function simulateScoring(
+  candidate: ScoringConfig,
+  filters: AdminLeadFilters,
+  maxLeads: number
+): Promise<SimulationResult> {
+  const { version: currentRuleVersion } = getActiveScoringConfig();
+  const currentModelVersion = getActiveScoringModel()?.version ?? null;
+  const current = new DistributionBuilder();
+  const proposed = new DistributionBuilder();
+  const labelShifts: Record<string, number> = {};
+  const changedLeads: SimulationResult["changedLeads"] = [];
+
+  let leadCount = 0;
+  let changedLabelCount = 0;
+  let truncated = false;
+  let afterId = 0;
+
+  while (leadCount < maxLeads) {
+    const limit = Math.min(SIMULATION_BATCH_SIZE, maxLeads - leadCount);
+    const batch = await storage.getFilteredLeadsAfterId(filters, afterId, limit);
+    if (batch.length === 0) break;
+
+    // The model also uses the form and campaign each lead came through
+    const details = await storage.getLeadDetailsMap(batch.map(lead => lead.id));
+
+    for (const lead of batch) {
+      const before = scoreLead(lead, undefined, details.get(lead.id));
+      const after = scoreLead(lead, candidate);
+
+      current.add(before.score, before.label, before.breakdown);
+      proposed.add(after.score, after.label, after.breakdown);
+
+      if (before.label !== after.label) {
+        const key = `${before.label}->${after.label}`;
+        labelShifts[key] = (labelShifts[key] ?? 0) + 1;
+        changedLabelCount++;
+
+        if (changedLeads.length < MAX_CHANGED_LEADS) {
+          changedLeads.push({
+            id: lead.id,
+            currentScore: before.score,
+            currentLabel: before.label,
+            candidateScore: after.score,
+            candidateLabel: after.label,
+          });
+        }
+      }
+    }
+
+    leadCount += batch.length;
+    afterId = batch[batch.length - 1].id;
+
+    if (leadCount >= maxLeads) {
+      truncated = (await storage.getFilteredLeadsAfterId(filters, afterId, 1)).length > 0;
+    }
+  }
+
+  return {
+    leadCount,
+    truncated,
+    currentRuleVersion,
+    currentModelVersion,
+    current: current.build(),
+    candidate: proposed.build(),
+    labelShifts,
+    changedLabelCount,
+    changedLeads,
+  };
+}
@@ -0,0 +1,175 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import type { SessionRow } from "./schema";
+
+declare module "express-session" {
+  interface SessionData {
+    meta?: SessionMeta;
+  }
+}
+
+interface SessionMeta {
+  ip: string | undefined;
+  userAgent: string | undefined;
+  createdAt: string;
+  lastSeenAt: string;
+}
+
+export interface SessionSummary {
+  id: string;
+  ip: string | null;
+  userAgent: string | null;
+  device: string;
+  createdAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: Date;
+  current: boolean;
+}
+
+// Only persist last-seen updates this often to avoid a write per request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Derive the public identifier for a session. The raw sid is never sent to
+ * clients.
+ * @param sid The session id
+ * @returns Short stable identifier
+ */
+function publicSessionId(sid: string): string {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 24);
+}
+
+/**
+ * Describe the device from a user agent string
+ * @param userAgent The user agent
+ * @returns Human readable device description
+ */
+function describeDevice(userAgent: string | undefined | null): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "Unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+/**
+ * Build client-facing summaries of stored sessions
+ * @param rows Session rows
+ * @param currentSid The requesting session's id
+ * @returns Session summaries
+ */
+export function summarizeSessions(rows: SessionRow[], currentSid?: string): SessionSummary[] {
+  return rows.map(row => {
+    const meta = (row.sess as { meta?: SessionMeta }).meta;
+    return {
+      id: publicSessionId(row.sid),
+      ip: meta?.ip ?? null,
+      userAgent: meta?.userAgent ?? null,
+      device: describeDevice(meta?.userAgent),
+      createdAt: meta?.createdAt ?? null,
+      lastSeenAt: meta?.lastSeenAt ?? null,
+      expiresAt: row.expire,
+      current: row.sid === currentSid,
+    };
+  });
+}
+
+/**
+ * Find the sid behind a public session identifier
+ * @param userId The session owner
+ * @param id The public identifier
+ * @returns The sid, if the user owns such a session
+ */
+export async function resolveSessionId(userId: number, id: string): Promise<string | null> {
+  const rows = await storage.getUserSessions(userId);
+  const match = rows.find(row => publicSessionId(row.sid) === id);
+  return match ? match.sid : null;
+}
+
+/**
+ * Middleware recording IP, user agent and last-seen time on authenticated sessions
+ */
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (!req.isAuthenticated() || !req.session) return next();
+
+  const now = new Date();
+  const meta = req.session.meta;
+  if (!meta) {
+    req.session.meta = {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+      createdAt: now.toISOString(),
+      lastSeenAt: now.toISOString(),
+    };
+  } else if (now.getTime() - new Date(meta.lastSeenAt).getTime() > LAST_SEEN_RESOLUTION_MS) {
+    meta.ip = req.ip;
+    meta.userAgent = req.get("user-agent");
+    meta.lastSeenAt = now.toISOString();
+  }
+
+  next();
+}
+
+/**
+ * Set up routes for users to manage their own sessions
+ * @param app Express application
+ */
+export function setupSessionManagement(app: Express): void {
+  // List the current user's active sessions
+  app.get("/api/user/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const rows = await storage.getUserSessions(req.user.id);
+      res.json(summarizeSessions(rows, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching sessions:", error);
+      res.status(500).json({ message: "Error fetching sessions" });
+    }
+  });
+
+  // Revoke one of the current user's sessions
+  app.delete("/api/user/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sid = await resolveSessionId(req.user.id, req.params.id);
+      if (!sid || !(await storage.deleteUserSession(req.user.id, sid))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking session:", error);
+      res.status(500).json({ message: "Error revoking session" });
+    }
+  });
+
+  // Revoke all of the current user's other sessions (or all of them with ?includeCurrent=true)
+  app.delete("/api/user/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const includeCurrent = req.query.includeCurrent === "true";
+      const revoked = await storage.deleteUserSessions(req.user.id, includeCurrent ? undefined : req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking sessions:", error);
+      res.status(500).json({ message: "Error revoking sessions" });
+    }
+  });
+}
@@ -0,0 +1,361 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import cron from "node-cron";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import { normalizePhone } from "./lead-dedup";
+import { ingestLead } from "./lead-intake";
+import { HONEYPOT_FIELD, type LeadSubmission } from "./form-schema";
+
+// Public endpoint limits: [requests, window in ms]
+const SUBMIT_IP_LIMIT = parseInt(process.env.LEAD_SUBMIT_IP_LIMIT || "10");
+const SUBMIT_IP_WINDOW_MS = 10 * 60 * 1000;
+const SUBMIT_FORM_LIMIT = parseInt(process.env.LEAD_SUBMIT_FORM_LIMIT || "120");
+const SUBMIT_FORM_WINDOW_MS = 60 * 1000;
+const FORM_VIEW_IP_LIMIT = parseInt(process.env.FORM_VIEW_IP_LIMIT || "60");
+const FORM_VIEW_IP_WINDOW_MS = 60 * 1000;
+
+// Humans take at least this long to fill in a form
+const MIN_FILL_TIME_MS = parseInt(process.env.FORM_MIN_FILL_TIME_MS || "3000");
+
+// Fill-time tokens older than this are ignored rather than trusted
+const FILL_TOKEN_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Throwaway mailbox providers; extend with DISPOSABLE_EMAIL_DOMAINS (comma-separated)
+const DISPOSABLE_EMAIL_DOMAINS = new Set([
+  "mailinator.com",
+  "guerrillamail.com",
+  "guerrillamail.info",
+  "sharklasers.com",
+  "10minutemail.com",
+  "tempmail.com",
+  "temp-mail.org",
+  "yopmail.com",
+  "trashmail.com",
+  "getnada.com",
+  "dispostable.com",
+  "throwawaymail.com",
+  "maildrop.cc",
+  "fakeinbox.com",
+  "mintemail.com",
+  "emailondeck.com",
+  ...(process.env.DISPOSABLE_EMAIL_DOMAINS || "").split(",").map(domain => domain.trim().toLowerCase()).filter(Boolean),
+]);
+
+const SIGNING_SECRET = loadSigningSecret();
+
+/**
+ * Read the secret used to sign fill-time tokens and hash IPs. Production must
+ * configure one, since instances have to agree on it; elsewhere a random one
+ * is made for this process, so tokens stop verifying after a restart.
+ * @returns The secret
+ */
+function loadSigningSecret(): string {
+  const secret = process.env.FORM_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("FORM_TOKEN_SECRET or SESSION_SECRET must be set in production");
+  }
+  console.warn("FORM_TOKEN_SECRET is not set; using a random secret for this process");
+  return randomBytes(32).toString("hex");
+}
+
+export interface CaptchaVerifier {
+  verify(token: string, ip: string | undefined): Promise<boolean>;
+}
+
+/**
+ * Verifier that accepts every token except "fail", for local development and tests
+ */
+export class FakeCaptchaVerifier implements CaptchaVerifier {
+  async verify(token: string): Promise<boolean> {
+    return token.length > 0 && token !== "fail";
+  }
+}
+
+/**
+ * Verifier for providers with a reCAPTCHA-style siteverify endpoint
+ * (reCAPTCHA, hCaptcha, Cloudflare Turnstile)
+ */
+export class SiteVerifyCaptchaVerifier implements CaptchaVerifier {
+  constructor(private readonly verifyUrl: string, private readonly secret: string) {}
+
+  async verify(token: string, ip: string | undefined): Promise<boolean> {
+    const body = new URLSearchParams({ secret: this.secret, response: token });
+    if (ip) body.set("remoteip", ip);
+
+    const response = await fetch(this.verifyUrl, { method: "POST", body });
+    if (!response.ok) return false;
+
+    const result = await response.json() as { success?: boolean };
+    return result.success === true;
+  }
+}
+
+/**
+ * Pick a verifier from CAPTCHA_PROVIDER ("fake" or "siteverify"); unset disables CAPTCHA
+ * @returns The configured verifier, or null
+ */
+function createDefaultVerifier(): CaptchaVerifier | null {
+  switch (process.env.CAPTCHA_PROVIDER) {
+    case "fake":
+      return new FakeCaptchaVerifier();
+    case "siteverify":
+      if (!process.env.CAPTCHA_VERIFY_URL || !process.env.CAPTCHA_SECRET) {
+        console.error("CAPTCHA_VERIFY_URL and CAPTCHA_SECRET are required for CAPTCHA_PROVIDER=siteverify; CAPTCHA is disabled");
+        return null;
+      }
+      return new SiteVerifyCaptchaVerifier(process.env.CAPTCHA_VERIFY_URL, process.env.CAPTCHA_SECRET);
+    default:
+      return null;
+  }
+}
+
+let captchaVerifier: CaptchaVerifier | null = createDefaultVerifier();
+
+/**
+ * Replace the CAPTCHA verifier
+ * @param verifier The verifier to use, or null to disable CAPTCHA
+ */
+export function setCaptchaVerifier(verifier: CaptchaVerifier | null): void {
+  captchaVerifier = verifier;
+}
+
+/**
+ * Hash an IP address for storage
+ * @param ip The client IP
+ * @returns Hex-encoded SHA-256 digest, or null without an IP
+ */
+export function hashIp(ip: string | undefined): string | null {
+  if (!ip) return null;
+  return createHash("sha256").update(`${SIGNING_SECRET}:${ip}`).digest("hex");
+}
+
+/**
+ * Issue a signed token recording when a visitor loaded a form, used to spot
+ * submissions made faster than a person could type
+ * @param formId The form
+ * @returns Token of the form "<issuedAt>.<signature>"
+ */
+export function issueFillToken(formId: number): string {
+  const issuedAt = Date.now().toString();
+  const signature = createHmac("sha256", SIGNING_SECRET).update(`${formId}:${issuedAt}`).digest("hex");
+  return `${issuedAt}.${signature}`;
+}
+
+/**
+ * Work out how long ago a fill-time token was issued
+ * @param formId The form being submitted
+ * @param token The token sent with the submission
+ * @returns Milliseconds since the form was loaded, or null if the token is invalid
+ */
+function fillTokenAge(formId: number, token: string): number | null {
+  const [issuedAt, signature] = token.split(".");
+  if (!issuedAt || !signature || !/^\d+$/.test(issuedAt)) return null;
+
+  const expected = createHmac("sha256", SIGNING_SECRET).update(`${formId}:${issuedAt}`).digest();
+  const given = Buffer.from(signature, "hex");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+
+  const age = Date.now() - parseInt(issuedAt);
+  return age >= 0 && age <= FILL_TOKEN_MAX_AGE_MS ? age : null;
+}
+
+/**
+ * Build a rate limiting middleware with a fixed window per key
+ * @param name Counter name, used to namespace keys
+ * @param limit Requests allowed per window
+ * @param windowMs Window length
+ * @param keyFor Picks the key for a request, or null to skip limiting it
+ * @returns Express middleware responding 429 once the limit is exceeded
+ */
+export function rateLimit(name: string, limit: number, windowMs: number, keyFor: (req: Request) => string | null | undefined) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    // Trusted integrations authenticate with API keys and are not limited
+    if (req.apiKey) return next();
+
+    const key = keyFor(req);
+    if (!key) return next();
+
+    try {
+      const { count, windowStart } = await storage.hitRateLimit(`${name}:${key}`, windowMs);
+      if (count > limit) {
+        const retryAfter = Math.max(1, Math.ceil((windowStart.getTime() + windowMs - Date.now()) / 1000));
+        res.set("Retry-After", retryAfter.toString());
+        return res.status(429).json({ message: "Too many requests. Please try again later.", retryAfter });
+      }
+      next();
+    } catch (error) {
+      // Never turn a counter failure into an outage for real visitors
+      console.error("Error checking rate limit:", error);
+      next();
+    }
+  };
+}
+
+// Limits for public lead submission, per IP and per form. Submissions
+// without a form share one bucket so they are limited too.
+export const limitLeadSubmissionsByIp = rateLimit("submit:ip", SUBMIT_IP_LIMIT, SUBMIT_IP_WINDOW_MS, req => req.ip);
+export const limitLeadSubmissionsByForm = rateLimit("submit:form", SUBMIT_FORM_LIMIT, SUBMIT_FORM_WINDOW_MS, req => {
+  const formId = req.params.id ?? req.query.formId ?? req.body?.formId;
+  return formId !== undefined && formId !== null && formId !== "" ? String(formId) : "none";
+});
+
+// Limit for loading and autosaving public forms, per IP
+export const limitFormViewsByIp = rateLimit("view:ip", FORM_VIEW_IP_LIMIT, FORM_VIEW_IP_WINDOW_MS, req => req.ip);
+
+export type SpamCheckResult =
+  | { action: "accept" }
+  | { action: "reject"; status: number; message: string }
+  | { action: "quarantine"; reasons: string[] };
+
+/**
+ * Check a public submission for signs of spam. A failed CAPTCHA is rejected
+ * outright; other signals send the submission to quarantine for review.
+ * @param req The submission request
+ * @param submission The validated submission
+ * @returns What to do with the submission
+ */
+export async function checkSubmission(req: Request, submission: LeadSubmission): Promise<SpamCheckResult> {
+  // Trusted integrations authenticate with API keys
+  if (req.apiKey) return { action: "accept" };
+
+  const body = req.body ?? {};
+
+  if (captchaVerifier) {
+    const token = typeof body.captchaToken === "string" ? body.captchaToken : "";
+    if (!token || !(await captchaVerifier.verify(token, req.ip))) {
+      return { action: "reject", status: 400, message: "CAPTCHA verification failed" };
+    }
+  }
+
+  const reasons: string[] = [];
+
+  const honeypot = body[HONEYPOT_FIELD];
+  if (typeof honeypot === "string" ? honeypot.trim() !== "" : honeypot !== undefined && honeypot !== null) {
+    reasons.push("honeypot");
+  }
+
+  // Forms loaded through GET /api/forms/:id carry a fill-time token. Older
+  // embeds without one still get through, but only after review, as do
+  // forged or instant tokens.
+  if (submission.formId !== null) {
+    const age = typeof body.fillToken === "string" ? fillTokenAge(submission.formId, body.fillToken) : undefined;
+    if (age === undefined) {
+      reasons.push("missing_fill_token");
+    } else if (age === null) {
+      reasons.push("invalid_fill_token");
+    } else if (age < MIN_FILL_TIME_MS) {
+      reasons.push("filled_too_fast");
+    }
+  }
+
+  const emailDomain = submission.lead.email?.split("@").pop()?.trim().toLowerCase();
+  if (emailDomain && DISPOSABLE_EMAIL_DOMAINS.has(emailDomain)) {
+    reasons.push("disposable_email");
+  }
+
+  if (submission.lead.phone && !normalizePhone(submission.lead.phone)) {
+    reasons.push("invalid_mobile");
+  }
+
+  return reasons.length > 0 ? { action: "quarantine", reasons } : { action: "accept" };
+}
+
+/**
+ * Hold a suspected spam submission for review
+ * @param req The submission request
+ * @param submission The validated submission
+ * @param reasons Why it looks like spam
+ */
+export async function quarantineSubmission(req: Request, submission: LeadSubmission, reasons: string[]): Promise<void> {
+  await storage.createQuarantinedSubmission({
+    formId: submission.formId,
+    submission,
+    reasons,
+    ipHash: hashIp(req.ip),
+    userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+  });
+}
+
+/**
+ * Set up rate limit housekeeping and the quarantine review routes
+ * @param app Express application
+ */
+export function setupSpamProtection(app: Express): void {
+  // Drop counters for windows that have long passed
+  cron.schedule("30 * * * *", async () => {
+    await storage.pruneRateLimits(new Date(Date.now() - 24 * 60 * 60 * 1000));
+  });
+
+  // List quarantined submissions
+  app.get("/api/admin/leads/quarantine", requirePermission("leads", "read"), async (req, res) => {
+    try {
+      const status = (req.query.status as string) || "pending";
+      const page = req.query.page ? parseInt(req.query.page as string) : undefined;
+      const perPage = req.query.perPage ? parseInt(req.query.perPage as string) : undefined;
+
+      const quarantined = await storage.getQuarantinedSubmissions(status, page, perPage);
+      res.json(quarantined);
+    } catch (error) {
+      console.error("Error fetching quarantined submissions:", error);
+      res.status(500).json({ message: "Error fetching quarantined submissions" });
+    }
+  });
+
+  // Release a quarantined submission into the leads table
+  app.post("/api/admin/leads/quarantine/:id/release", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid submission ID" });
+      }
+
+      // Claim the submission first so two reviewers cannot both release it
+      const quarantined = await storage.resolveQuarantinedSubmission(id, "released", req.user?.id ?? null);
+      if (!quarantined) {
+        const existing = await storage.getQuarantinedSubmissionById(id);
+        return existing
+          ? res.status(409).json({ message: "Submission has already been reviewed" })
+          : res.status(404).json({ message: "Submission not found" });
+      }
+
+      let result;
+      try {
+        result = await ingestLead(quarantined.submission);
+      } catch (error) {
+        // Put it back for review rather than leave it released without a lead
+        await storage.reopenQuarantinedSubmission(id);
+        throw error;
+      }
+      await storage.setQuarantinedSubmissionLead(id, result.lead.id);
+
+      const { scoreBreakdown: _breakdown, ...lead } = result.lead;
+      res.json({ ...lead, duplicate: result.duplicate });
+    } catch (error) {
+      console.error("Error releasing quarantined submission:", error);
+      res.status(500).json({ message: "Error releasing quarantined submission" });
+    }
+  });
+
+  // Confirm a quarantined submission as spam
+  app.post("/api/admin/leads/quarantine/:id/reject", requirePermission("leads", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid submission ID" });
+      }
+
+      const quarantined = await storage.resolveQuarantinedSubmission(id, "rejected", req.user?.id ?? null);
+      if (!quarantined) {
+        return res.status(404).json({ message: "Pending submission not found" });
+      }
+
+      res.json(quarantined);
+    } catch (error) {
+      console.error("Error rejecting quarantined submission:", error);
+      res.status(500).json({ message: "Error rejecting quarantined submission" });
+    }
+  });
+}
@@ -1,19 +1,400 @@
 import { db } from './db';
 import { users, leads, forms, campaigns, adPosts, leadExports } from '@shared/schema';
-import { eq, desc, and, like, gte, lte, sql, count, isNull, not } from 'drizzle-orm';
-import { PaginatedResponse, LeadFilters, CampaignFilters, LeadSourcesStat, DashboardStats, CampaignPerformance, SocialPlatform } from '@shared/types';
+import { eq, desc, and, or, like, gte, lte, gt, lt, sql, count, isNull, not, inArray, asc, getTableColumns, type SQL } from 'drizzle-orm';
+import { PaginatedResponse, CampaignFilters, LeadSourcesStat, DashboardStats, CampaignPerformance, SocialPlatform } from '@shared/types';
 import { User, InsertUser, Lead, InsertLead, LeadUpdate, Form, FormInsert, Campaign, CampaignInsert, AdPost, AdPostInsert, LeadExport, InsertLeadExport } from '@shared/schema';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
 import connectPg from "connect-pg-simple";
 import session from "express-session";
 import { pool } from './db';
-import { scoreLead } from './lead-scoring';
+import { getActiveScoringConfig } from './lead-scoring';
+import type { AdminLeadFilters, DashboardPeriod, DashboardStatsPeriod, AnalyticsBreakdown, LeadTimeSeries, LeadTimeSeriesQuery, LeadTimeSeriesBucket, LeadTimeSeriesGroup, ScoreLabel, TaskFilters, FirstResponseTargets, FirstResponseStat, LeadBulkResult, LeadBulkOperation } from './types';
+import { startOfDayInTimeZone, addDaysInTimeZone } from './timezone';
+import type { FormDefinition } from './form-schema';
+import { accountStatus, userTokens, sessions, loginAttempts, apiKeys, scoringRuleSets, leadScoreSnapshots, leadDetails, scoringModels, leadTouchpoints, leadDuplicateCandidates, formSchemas, formVersions, leadDrafts, rateLimits, quarantinedSubmissions, adPostLinks, adPostClicks, pipelineStages, pipelineTransitions, leadStatusHistory, assignmentRules, leadAssignments, leadCommunications, leadTasks, leadBulkJobs } from './schema';
+import type { AccountStatus, UserToken, UserTokenInsert, SessionRow, LoginAttempt, ApiKey, ApiKeyInsert, ScoringRuleSet, ScoringRuleSetInsert, LeadScoreSnapshot, LeadScoreSnapshotInsert, LeadDetails, LeadDetailsInsert, ScoringModel, ScoringModelInsert, LeadTouchpoint, LeadTouchpointInsert, LeadDuplicateCandidate, LeadDuplicateCandidateInsert, FormSchema, FormVersion, LeadDraft, LeadDraftInsert, QuarantinedSubmission, QuarantinedSubmissionInsert, AdPostLink, AdPostLinkInsert, AdPostClickInsert, PipelineStage, PipelineStageInsert, PipelineTransition, PipelineTransitionInsert, LeadStatusHistoryEntry, LeadStatusHistoryInsert, AssignmentRule, AssignmentRuleInsert, LeadAssignment, LeadCommunication, LeadCommunicationInsert, LeadTask, LeadTaskInsert, LeadBulkJob, LeadBulkJobInsert } from './schema';
 
-// Create PostgreSQL session store
+// Create PostgreSQL session store. The table is created by ensureSchema()
+// so that restarts and multiple instances share sessions.
 const PostgresSessionStore = connectPg(session);
-// Use in-memory session store to avoid session table issues
-// This is a workaround for session_pkey already exists error
-const MemoryStore = session.MemoryStore;
-const sessionStore = new MemoryStore();
+const sessionStore = new PostgresSessionStore({
+  pool,
+  tableName: 'session',
+  createTableIfMissing: false,
+});
+
+// Columns the lead list can be sorted by
+const leadSortColumns = {
+  id: leads.id,
+  fullName: leads.fullName,
+  email: leads.email,
+  age: leads.age,
+  education: leads.education,
+  college: leads.college,
+  state: leads.state,
+  city: leads.city,
+  source: leads.source,
+  status: leads.status,
+  score: leads.score,
+  createdAt: leads.createdAt,
+  updatedAt: leads.updatedAt,
+};
+
+/**
+ * Normalize a single value or list filter to a list
+ * @param value The filter value
+ * @returns List of values (empty when unset)
+ */
+function toList<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).filter(v => v !== '' && v !== undefined);
+}
+
+/**
+ * Case-insensitive "matches any of" condition for a text column
+ * @param column The column
+ * @param values Values to match
+ * @returns SQL condition
+ */
+function matchesAnyIgnoreCase(column: AnyPgColumn, values: string[]): SQL {
+  return inArray(sql`lower(${column})`, values.map(v => v.trim().toLowerCase()));
+}
+
+/**
+ * SQL expression for a lead's score label. Labels are derived from the stored
+ * score and the active thresholds.
+ * @returns Expression evaluating to 'Hot', 'Warm' or 'Cold'
+ */
+function scoreLabelSql(): SQL<string> {
+  const { hot, warm } = getActiveScoringConfig().config.thresholds;
+  const score = sql`coalesce(${leads.score}, 0)`;
+  return sql<string>`case when ${score} >= ${hot} then 'Hot' when ${score} >= ${warm} then 'Warm' else 'Cold' end`;
+}
+
+/**
+ * SQL expressions grouping leads for an analytics breakdown
+ * @param breakdown The breakdown
+ * @returns Group key and display label expressions
+ */
+function analyticsGroupSql(breakdown: AnalyticsBreakdown | undefined): { key: SQL; label: SQL } {
+  switch (breakdown) {
+    case 'source':
+      return { key: sql`${leads.source}`, label: sql`${leads.source}` };
+    case 'status':
+      return { key: sql`${leads.status}`, label: sql`${leads.status}` };
+    case 'state': {
+      // States are free text, so group case-insensitively
+      const state = sql`coalesce(initcap(nullif(trim(${leads.state}), '')), 'Unknown')`;
+      return { key: state, label: state };
+    }
+    case 'scoreLabel':
+      return { key: scoreLabelSql(), label: scoreLabelSql() };
+    case 'form':
+      return {
+        key: sql`coalesce(${leadDetails.formId}::text, 'none')`,
+        label: sql`coalesce(${forms.name}, 'No form')`,
+      };
+    case 'campaign':
+      return {
+        key: sql`coalesce(${leadDetails.campaignId}::text, 'none')`,
+        label: sql`coalesce(${campaigns.name}, 'No campaign')`,
+      };
+    default:
+      return { key: sql`null::text`, label: sql`null::text` };
+  }
+}
+
+/**
+ * Build a text[] literal from a list of values
+ * @param values The values
+ * @returns SQL array expression, empty when there are no values
+ */
+function textArraySql(values: string[]): SQL {
+  return sql`array[${sql.join(values.map(value => sql`${value}`), sql`, `)}]::text[]`;
+}
+
+/**
+ * Build SQL conditions for lead filters
+ * @param filters The lead filters
+ * @returns List of SQL conditions to AND together
+ */
+function buildLeadConditions(filters: AdminLeadFilters): SQL[] {
+  const { search, dateRange, scoreMin, scoreMax } = filters;
+  const conditions: SQL[] = [];
+
+  if (search) {
+    conditions.push(like(leads.fullName, `%${search}%`));
+  }
+
+  const sources = toList(filters.source);
+  if (sources.length > 0) {
+    conditions.push(inArray(leads.source, sources));
+  }
+
+  const statuses = toList(filters.status);
+  if (statuses.length > 0) {
+    conditions.push(inArray(leads.status, statuses));
+  }
+
+  const states = toList(filters.state);
+  if (states.length > 0) {
+    conditions.push(matchesAnyIgnoreCase(leads.state, states));
+  }
+
+  const cities = toList(filters.city);
+  if (cities.length > 0) {
+    conditions.push(matchesAnyIgnoreCase(leads.city, cities));
+  }
+
+  const educations = toList(filters.education);
+  if (educations.length > 0) {
+    conditions.push(matchesAnyIgnoreCase(leads.education, educations));
+  }
+
+  const colleges = toList(filters.college);
+  if (colleges.length > 0) {
+    conditions.push(matchesAnyIgnoreCase(leads.college, colleges));
+  }
+
+  const formIds = toList(filters.formId);
+  if (formIds.length > 0) {
+    conditions.push(inArray(
+      leads.id,
+      db.select({ id: leadDetails.leadId }).from(leadDetails).where(inArray(leadDetails.formId, formIds))
+    ));
+  }
+
+  // Leads owned by any of the given users, or with no owner
+  const ownerIds = toList(filters.ownerId);
+  if (ownerIds.length > 0 || filters.unassigned) {
+    const ownerConditions: SQL[] = [];
+    if (ownerIds.length > 0) {
+      ownerConditions.push(inArray(
+        leads.id,
+        db.select({ id: leadDetails.leadId }).from(leadDetails).where(inArray(leadDetails.ownerId, ownerIds))
+      ));
+    }
+    if (filters.unassigned) {
+      ownerConditions.push(not(inArray(
+        leads.id,
+        db.select({ id: leadDetails.leadId }).from(leadDetails).where(sql`${leadDetails.ownerId} is not null`)
+      )));
+    }
+    conditions.push(or(...ownerConditions)!);
+  }
+
+  // Leads with any of the given tags
+  const tags = toList(filters.tag);
+  if (tags.length > 0) {
+    conditions.push(inArray(
+      leads.id,
+      db.select({ id: leadDetails.leadId }).from(leadDetails).where(sql`${leadDetails.tags} && ${textArraySql(tags)}`)
+    ));
+  }
+
+  if (scoreMin !== undefined) {
+    conditions.push(gte(leads.score, scoreMin));
+  }
+
+  if (scoreMax !== undefined) {
+    conditions.push(lte(leads.score, scoreMax));
+  }
+
+  const labels = toList(filters.scoreLabel);
+  if (labels.length > 0) {
+    conditions.push(inArray(scoreLabelSql(), labels));
+  }
+
+  if (dateRange?.from) {
+    conditions.push(gte(leads.createdAt, new Date(dateRange.from)));
+  }
+
+  if (dateRange?.to) {
+    conditions.push(lte(leads.createdAt, new Date(dateRange.to)));
+  }
+
+  return conditions;
+}
+
+/**
+ * Build the ORDER BY clause for the lead list
+ * @param sortBy Column key to sort by
+ * @param sortOrder Sort direction
+ * @returns ORDER BY expressions, with id as a stable tiebreaker
+ */
+function leadOrderBy(sortBy: string, sortOrder: 'asc' | 'desc'): SQL[] {
+  const column = leadSortColumns[sortBy as keyof typeof leadSortColumns] ?? leads.createdAt;
+  const direction = sortOrder === 'asc' ? sql`asc` : sql`desc`;
+  return [
+    sql`${column} ${direction} nulls last`,
+    sortOrder === 'asc' ? asc(leads.id) : desc(leads.id),
+  ];
+}
+
+/**
+ * Round to at most one decimal place for display
+ * @param value The number
+ * @returns Rounded number
+ */
+function formatNumber(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Format the change between two counts as a signed percentage
+ * @param current Count for the current period
+ * @param previous Count for the previous period
+ * @returns e.g. "+15%" or "-3.2%"
+ */
+function formatChange(current: number, previous: number): string {
+  if (previous === 0) {
+    return current > 0 ? "+100%" : "+0%";
+  }
+  const change = ((current - previous) / previous) * 100;
+  return `${change >= 0 ? "+" : ""}${formatNumber(change)}%`;
+}
+
+// The database, or a transaction that several writes share
+type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Move a lead to a new status and log the change, provided the lead still
+ * has the status the move was checked against
+ * @param executor The database or an open transaction
+ * @param leadId The lead
+ * @param fromStatus The status the lead is expected to have
+ * @param entry The new status, fields recorded for the move, note and who made it
+ * @returns The updated lead, or null if the lead is gone or its status changed meanwhile
+ */
+async function changeLeadStatusWith(
+  executor: DbExecutor,
+  leadId: number,
+  fromStatus: string | null,
+  entry: Pick<LeadStatusHistoryInsert, 'toStatus' | 'fields' | 'note' | 'changedBy'>,
+): Promise<Lead | null> {
+  const [lead] = await executor
+    .update(leads)
+    .set({ status: entry.toStatus, updatedAt: new Date() })
+    .where(and(eq(leads.id, leadId), sql`${leads.status} is not distinct from ${fromStatus}`))
+    .returning();
+  if (!lead) return null;
+
+  await executor.insert(leadStatusHistory).values({ ...entry, leadId, fromStatus });
+  return lead;
+}
+
+/**
+ * Set the owner of leads, creating details rows for leads that have none,
+ * and log each change of owner
+ * @param executor The database or an open transaction
+ * @param leadIds The leads
+ * @param ownerId The new owner, or null to unassign
+ * @param by The user or rule making the assignment
+ * @returns IDs of the leads that exist and were updated
+ */
+async function assignLeadsWith(
+  executor: DbExecutor,
+  leadIds: number[],
+  ownerId: number | null,
+  by: { assignedBy: number | null; ruleId: number | null },
+): Promise<number[]> {
+  const existing = await executor
+    .select({ id: leads.id, ownerId: leadDetails.ownerId })
+    .from(leads)
+    .leftJoin(leadDetails, eq(leadDetails.leadId, leads.id))
+    .where(inArray(leads.id, leadIds));
+  if (existing.length === 0) return [];
+
+  const now = new Date();
+  const assignment = { ownerId, assignedAt: ownerId === null ? null : now, updatedAt: now };
+  await executor
+    .insert(leadDetails)
+    .values(existing.map(({ id }) => ({ leadId: id, ...assignment })))
+    .onConflictDoUpdate({
+      target: leadDetails.leadId,
+      set: assignment,
+    });
+
+  const changed = existing.filter(lead => lead.ownerId !== ownerId);
+  if (changed.length > 0) {
+    await executor.insert(leadAssignments).values(changed.map(lead => ({
+      leadId: lead.id,
+      ownerId,
+      previousOwnerId: lead.ownerId,
+      ...by,
+      assignedAt: now,
+    })));
+  }
+
+  return existing.map(({ id }) => id);
+}
+
+/**
+ * Add and remove tags on leads, creating details rows for leads that have none
+ * @param executor The database or an open transaction
+ * @param leadIds The leads
+ * @param add Tags to add
+ * @param remove Tags to remove
+ * @returns IDs of the leads that exist and were updated
+ */
+async function tagLeadsWith(executor: DbExecutor, leadIds: number[], add: string[], remove: string[]): Promise<number[]> {
+  const existing = await executor
+    .select({ id: leads.id })
+    .from(leads)
+    .where(inArray(leads.id, leadIds));
+  if (existing.length === 0) return [];
+
+  const now = new Date();
+  const added = add.filter(tag => !remove.includes(tag));
+  await executor
+    .insert(leadDetails)
+    .values(existing.map(({ id }) => ({ leadId: id, tags: added, updatedAt: now })))
+    .onConflictDoUpdate({
+      target: leadDetails.leadId,
+      set: {
+        tags: sql`array(
+          select distinct tag from unnest(${leadDetails.tags} || ${textArraySql(add)}) as tag
+          where tag <> all(${textArraySql(remove)})
+          order by tag
+        )`,
+        updatedAt: now,
+      },
+    });
+
+  return existing.map(({ id }) => id);
+}
+
+// Lead detail columns a merged lead inherits from its duplicate when it has none of its own
+const mergeableDetailColumns: (keyof LeadDetailsInsert)[] = [
+  'campaignId',
+  'utmSource',
+  'utmMedium',
+  'utmCampaign',
+  'utmTerm',
+  'utmContent',
+  'referrer',
+  'landingUrl',
+  'clickId',
+  'adPostId',
+  'ownerId',
+  'assignedAt',
+];
+
+/**
+ * Copy one lead detail column from a duplicate's details onto a fill
+ * @param fill The values to fill in on the primary lead's details
+ * @param source The duplicate's details
+ * @param key The column
+ */
+function fillDetailColumn<K extends keyof LeadDetailsInsert>(fill: Partial<LeadDetails>, source: LeadDetails, key: K): void {
+  fill[key] = source[key];
+}
+
+// Ad post columns, with leads captured counted from the leads attributed to the post
+const adPostColumns = {
+  ...getTableColumns(adPosts),
+  leadsCaptured: sql<number>`(SELECT COUNT(*) FROM ${leadDetails} WHERE ${leadDetails.adPostId} = ${adPosts.id})`.mapWith(Number),
+};
 
 // Storage interface for our application
 export const storage = {
@@ -51,6 +432,346 @@ export const storage = {
     }
   },
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(eq(sql`lower(${users.email})`, email.toLowerCase()));
+      return user || undefined;
+    } catch (error) {
+      console.error("Error getting user by email:", error);
+      return undefined;
+    }
+  },
+
+  async getAllUsers(): Promise<Array<User & { active: boolean; mustResetPassword: boolean }>> {
+    try {
+      const rows = await db
+        .select({ user: users, status: accountStatus })
+        .from(users)
+        .leftJoin(accountStatus, eq(accountStatus.userId, users.id))
+        .orderBy(desc(users.createdAt));
+
+      return rows.map(({ user, status }) => ({
+        ...user,
+        active: status?.active ?? true,
+        mustResetPassword: status?.mustResetPassword ?? false,
+      }));
+    } catch (error) {
+      console.error("Error getting users:", error);
+      return [];
+    }
+  },
+
+  async updateUser(id: number, data: Partial<InsertUser>): Promise<User | null> {
+    try {
+      const [updatedUser] = await db
+        .update(users)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(users.id, id))
+        .returning();
+
+      return updatedUser || null;
+    } catch (error) {
+      console.error("Error updating user:", error);
+      return null;
+    }
+  },
+
+  async hasAdminUser(): Promise<boolean> {
+    try {
+      const [{ value }] = await db
+        .select({ value: count() })
+        .from(users)
+        .where(eq(users.role, 'admin'));
+      return value > 0;
+    } catch (error) {
+      console.error("Error checking for admin user:", error);
+      throw new Error("Failed to check for admin user");
+    }
+  },
+
+  // Account status methods
+  async getAccountStatus(userId: number): Promise<AccountStatus> {
+    try {
+      const [status] = await db
+        .select()
+        .from(accountStatus)
+        .where(eq(accountStatus.userId, userId));
+
+      return status || { userId, active: true, mustResetPassword: false, deactivatedAt: null, updatedAt: new Date() };
+    } catch (error) {
+      console.error("Error getting account status:", error);
+      throw new Error("Failed to get account status");
+    }
+  },
+
+  async setAccountStatus(userId: number, data: Partial<Pick<AccountStatus, 'active' | 'mustResetPassword' | 'deactivatedAt'>>): Promise<AccountStatus> {
+    try {
+      const [status] = await db
+        .insert(accountStatus)
+        .values({ userId, ...data, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: accountStatus.userId,
+          set: { ...data, updatedAt: new Date() },
+        })
+        .returning();
+
+      return status;
+    } catch (error) {
+      console.error("Error setting account status:", error);
+      throw new Error("Failed to set account status");
+    }
+  },
+
+  // Login attempt methods
+  async getLoginAttempt(key: string): Promise<LoginAttempt | null> {
+    try {
+      const [attempt] = await db
+        .select()
+        .from(loginAttempts)
+        .where(eq(loginAttempts.key, key));
+
+      return attempt || null;
+    } catch (error) {
+      console.error("Error getting login attempt:", error);
+      return null;
+    }
+  },
+
+  async saveLoginAttempt(key: string, failures: number, lockedUntil: Date | null): Promise<void> {
+    try {
+      await db
+        .insert(loginAttempts)
+        .values({ key, failures, lockedUntil, lastFailureAt: new Date() })
+        .onConflictDoUpdate({
+          target: loginAttempts.key,
+          set: { failures, lockedUntil, lastFailureAt: new Date() },
+        });
+    } catch (error) {
+      console.error("Error saving login attempt:", error);
+    }
+  },
+
+  async clearLoginAttempt(key: string): Promise<void> {
+    try {
+      await db.delete(loginAttempts).where(eq(loginAttempts.key, key));
+    } catch (error) {
+      console.error("Error clearing login attempt:", error);
+    }
+  },
+
+  // Session methods
+  async getUserSessions(userId: number): Promise<SessionRow[]> {
+    try {
+      return await db
+        .select()
+        .from(sessions)
+        .where(and(
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+          gt(sessions.expire, new Date()),
+        ))
+        .orderBy(desc(sessions.expire));
+    } catch (error) {
+      console.error("Error getting user sessions:", error);
+      return [];
+    }
+  },
+
+  async deleteUserSession(userId: number, sid: string): Promise<boolean> {
+    try {
+      const [deletedSession] = await db
+        .delete(sessions)
+        .where(and(
+          eq(sessions.sid, sid),
+          sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`,
+        ))
+        .returning();
+
+      return !!deletedSession;
+    } catch (error) {
+      console.error("Error deleting user session:", error);
+      return false;
+    }
+  },
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    try {
+      const conditions = [sql`${sessions.sess}->'passport'->>'user' = ${String(userId)}`];
+      if (exceptSid) {
+        conditions.push(not(eq(sessions.sid, exceptSid)));
+      }
+
+      const deleted = await db
+        .delete(sessions)
+        .where(and(...conditions))
+        .returning({ sid: sessions.sid });
+
+      return deleted.length;
+    } catch (error) {
+      console.error("Error deleting user sessions:", error);
+      return 0;
+    }
+  },
+
+  // One-time token methods (invitations, password resets)
+  async createUserToken(data: UserTokenInsert): Promise<UserToken> {
+    try {
+      const [token] = await db.insert(userTokens).values(data).returning();
+      return token;
+    } catch (error) {
+      console.error("Error creating user token:", error);
+      throw new Error("Failed to create user token");
+    }
+  },
+
+  async getValidUserToken(tokenHash: string, purpose: string): Promise<UserToken | null> {
+    try {
+      const [token] = await db
+        .select()
+        .from(userTokens)
+        .where(and(
+          eq(userTokens.tokenHash, tokenHash),
+          eq(userTokens.purpose, purpose),
+          isNull(userTokens.usedAt),
+          gt(userTokens.expiresAt, new Date()),
+        ));
+
+      return token || null;
+    } catch (error) {
+      console.error("Error getting user token:", error);
+      return null;
+    }
+  },
+
+  async markUserTokenUsed(id: number): Promise<boolean> {
+    try {
+      const [token] = await db
+        .update(userTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(userTokens.id, id), isNull(userTokens.usedAt)))
+        .returning();
+
+      return !!token;
+    } catch (error) {
+      console.error("Error marking user token used:", error);
+      return false;
+    }
+  },
+
+  // Mark a token used and create the user it was issued for; null if the token was already used
+  async createUserFromToken(tokenId: number, userData: InsertUser): Promise<User | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [token] = await tx
+          .update(userTokens)
+          .set({ usedAt: new Date() })
+          .where(and(eq(userTokens.id, tokenId), isNull(userTokens.usedAt)))
+          .returning();
+        if (!token) return null;
+
+        const [user] = await tx.insert(users).values(userData).returning();
+        return user;
+      });
+    } catch (error) {
+      console.error("Error creating user from token:", error);
+      throw new Error("Failed to create user");
+    }
+  },
+
+  async revokeUserTokens(userId: number, purpose: string): Promise<number> {
+    try {
+      const revoked = await db
+        .update(userTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(userTokens.userId, userId), eq(userTokens.purpose, purpose), isNull(userTokens.usedAt)))
+        .returning({ id: userTokens.id });
+
+      return revoked.length;
+    } catch (error) {
+      console.error("Error revoking user tokens:", error);
+      throw new Error("Failed to revoke user tokens");
+    }
+  },
+
+  async getPendingInvites(): Promise<UserToken[]> {
+    try {
+      return await db
+        .select()
+        .from(userTokens)
+        .where(and(
+          eq(userTokens.purpose, 'invite'),
+          isNull(userTokens.usedAt),
+          gt(userTokens.expiresAt, new Date()),
+        ))
+        .orderBy(desc(userTokens.createdAt));
+    } catch (error) {
+      console.error("Error getting pending invites:", error);
+      return [];
+    }
+  },
+
+  // API key methods
+  async getAllApiKeys(): Promise<ApiKey[]> {
+    try {
+      return await db
+        .select()
+        .from(apiKeys)
+        .orderBy(desc(apiKeys.createdAt));
+    } catch (error) {
+      console.error("Error getting API keys:", error);
+      return [];
+    }
+  },
+
+  async getApiKeyByPrefix(prefix: string): Promise<ApiKey | null> {
+    try {
+      const [apiKey] = await db
+        .select()
+        .from(apiKeys)
+        .where(eq(apiKeys.prefix, prefix));
+
+      return apiKey || null;
+    } catch (error) {
+      console.error("Error getting API key:", error);
+      return null;
+    }
+  },
+
+  async createApiKey(data: ApiKeyInsert): Promise<ApiKey> {
+    try {
+      const [apiKey] = await db.insert(apiKeys).values(data).returning();
+      return apiKey;
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      throw new Error("Failed to create API key");
+    }
+  },
+
+  async touchApiKey(id: number, ip: string | undefined): Promise<void> {
+    try {
+      await db
+        .update(apiKeys)
+        .set({ lastUsedAt: new Date(), lastUsedIp: ip ?? null })
+        .where(eq(apiKeys.id, id));
+    } catch (error) {
+      console.error("Error updating API key usage:", error);
+    }
+  },
+
+  async revokeApiKey(id: number): Promise<ApiKey | null> {
+    try {
+      const [apiKey] = await db
+        .update(apiKeys)
+        .set({ revokedAt: new Date() })
+        .where(and(eq(apiKeys.id, id), isNull(apiKeys.revokedAt)))
+        .returning();
+
+      return apiKey || null;
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      return null;
+    }
+  },
+
   // Lead methods
   async getLeadById(id: number): Promise<Lead | null> {
     try {
@@ -62,32 +783,12 @@ export const storage = {
     }
   },
 
-  async getAllLeads(filters: LeadFilters = {}): Promise<PaginatedResponse<Lead>> {
+  async getAllLeads(filters: AdminLeadFilters = {}): Promise<PaginatedResponse<Lead>> {
     try {
-      const { page = 1, perPage = 10, sortBy = 'createdAt', sortOrder = 'desc', search, source, status, dateRange } = filters;
+      const { page = 1, perPage = 10, sortBy = 'createdAt', sortOrder = 'desc' } = filters;
       
       // Build filter conditions
-      const conditions = [];
-      
-      if (search) {
-        conditions.push(like(leads.fullName, `%${search}%`));
-      }
-      
-      if (source) {
-        conditions.push(eq(leads.source, source));
-      }
-      
-      if (status) {
-        conditions.push(eq(leads.status, status));
-      }
-      
-      if (dateRange?.from) {
-        conditions.push(gte(leads.createdAt, new Date(dateRange.from)));
-      }
-      
-      if (dateRange?.to) {
-        conditions.push(lte(leads.createdAt, new Date(dateRange.to)));
-      }
+      const conditions = buildLeadConditions(filters);
 
       // Query with filters
       const filter = conditions.length > 0 ? and(...conditions) : undefined;
@@ -103,18 +804,12 @@ export const storage = {
         .select()
         .from(leads)
         .where(filter)
-        .orderBy(sortOrder === 'desc' ? desc(leads[sortBy as keyof typeof leads]) : leads[sortBy as keyof typeof leads])
+        .orderBy(...leadOrderBy(sortBy, sortOrder))
         .limit(perPage)
         .offset((page - 1) * perPage);
 
-      // Calculate scores for leads
-      const leadsWithScores = data.map(lead => {
-        const { score, label } = scoreLead(lead);
-        return { ...lead, score, scoreLabel: label };
-      });
-
       return {
-        data: leadsWithScores,
+        data,
         meta: {
           currentPage: page,
           totalPages: Math.ceil(totalItems / perPage),
@@ -190,46 +885,494 @@ export const storage = {
     }
   },
 
-  // Dashboard methods
-  async getDashboardStats(): Promise<DashboardStats> {
+  async getLeadDetails(leadId: number): Promise<LeadDetails | null> {
     try {
-      // Get total leads
-      const [{ value: totalLeads }] = await db
-        .select({ value: count() })
-        .from(leads);
+      const [details] = await db
+        .select()
+        .from(leadDetails)
+        .where(eq(leadDetails.leadId, leadId));
 
-      // Get new leads today
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      
-      const [{ value: newLeadsToday }] = await db
-        .select({ value: count() })
-        .from(leads)
-        .where(gte(leads.createdAt, today));
+      return details || null;
+    } catch (error) {
+      console.error("Error getting lead details:", error);
+      return null;
+    }
+  },
 
-      // Get total active forms
+  async getLeadDetailsMap(leadIds: number[]): Promise<Map<number, LeadDetails>> {
+    const detailsMap = new Map<number, LeadDetails>();
+    if (leadIds.length === 0) return detailsMap;
+
+    try {
+      const rows = await db
+        .select()
+        .from(leadDetails)
+        .where(inArray(leadDetails.leadId, leadIds));
+
+      rows.forEach(row => detailsMap.set(row.leadId, row));
+      return detailsMap;
+    } catch (error) {
+      console.error("Error getting lead details:", error);
+      throw new Error("Failed to get lead details");
+    }
+  },
+
+  async setLeadDetails(leadId: number, data: Omit<LeadDetailsInsert, 'leadId' | 'updatedAt'>): Promise<LeadDetails> {
+    try {
+      const [details] = await db
+        .insert(leadDetails)
+        .values({ leadId, ...data, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: leadDetails.leadId,
+          set: { ...data, updatedAt: new Date() },
+        })
+        .returning();
+
+      return details;
+    } catch (error) {
+      console.error("Error setting lead details:", error);
+      throw new Error("Failed to set lead details");
+    }
+  },
+
+  async getLeadsAfterId(afterId: number, limit: number): Promise<Lead[]> {
+    try {
+      return await db
+        .select()
+        .from(leads)
+        .where(gt(leads.id, afterId))
+        .orderBy(asc(leads.id))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error getting lead batch:", error);
+      throw new Error("Failed to get lead batch");
+    }
+  },
+
+  async getFilteredLeadsAfterId(filters: AdminLeadFilters, afterId: number, limit: number): Promise<Lead[]> {
+    try {
+      return await db
+        .select()
+        .from(leads)
+        .where(and(gt(leads.id, afterId), ...buildLeadConditions(filters)))
+        .orderBy(asc(leads.id))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error getting filtered lead batch:", error);
+      throw new Error("Failed to get filtered lead batch");
+    }
+  },
+
+  // Duplicate detection methods
+  async findLeadsByIdentity(normalizedPhone: string | null, normalizedEmail: string | null): Promise<Lead[]> {
+    const conditions: SQL[] = [];
+    if (normalizedPhone) conditions.push(eq(leadDetails.normalizedPhone, normalizedPhone));
+    if (normalizedEmail) conditions.push(eq(leadDetails.normalizedEmail, normalizedEmail));
+    if (conditions.length === 0) return [];
+
+    try {
+      const rows = await db
+        .select({ lead: leads })
+        .from(leads)
+        .innerJoin(leadDetails, eq(leadDetails.leadId, leads.id))
+        .where(or(...conditions))
+        .orderBy(asc(leads.createdAt));
+
+      return rows.map(row => row.lead);
+    } catch (error) {
+      console.error("Error finding leads by identity:", error);
+      throw new Error("Failed to find leads by identity");
+    }
+  },
+
+  async findLeadsForNameMatch(state: string, since: Date, limit: number): Promise<Lead[]> {
+    try {
+      return await db
+        .select()
+        .from(leads)
+        .where(and(
+          eq(sql`lower(${leads.state})`, state.trim().toLowerCase()),
+          gte(leads.createdAt, since),
+        ))
+        .orderBy(desc(leads.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error finding leads for name match:", error);
+      return [];
+    }
+  },
+
+  async getLeadsMissingIdentity(afterId: number, limit: number): Promise<Lead[]> {
+    try {
+      const rows = await db
+        .select({ lead: leads })
+        .from(leads)
+        .leftJoin(leadDetails, eq(leadDetails.leadId, leads.id))
+        .where(and(
+          gt(leads.id, afterId),
+          isNull(leadDetails.normalizedPhone),
+          isNull(leadDetails.normalizedEmail),
+        ))
+        .orderBy(asc(leads.id))
+        .limit(limit);
+
+      return rows.map(row => row.lead);
+    } catch (error) {
+      console.error("Error getting leads missing identity:", error);
+      throw new Error("Failed to get leads missing identity");
+    }
+  },
+
+  async addLeadTouchpoint(data: LeadTouchpointInsert): Promise<LeadTouchpoint> {
+    try {
+      const [touchpoint] = await db.insert(leadTouchpoints).values(data).returning();
+      return touchpoint;
+    } catch (error) {
+      console.error("Error adding lead touchpoint:", error);
+      throw new Error("Failed to add lead touchpoint");
+    }
+  },
+
+  async getLeadTouchpoints(leadId: number): Promise<LeadTouchpoint[]> {
+    try {
+      return await db
+        .select()
+        .from(leadTouchpoints)
+        .where(eq(leadTouchpoints.leadId, leadId))
+        .orderBy(desc(leadTouchpoints.createdAt));
+    } catch (error) {
+      console.error("Error getting lead touchpoints:", error);
+      return [];
+    }
+  },
+
+  async createDuplicateCandidate(data: LeadDuplicateCandidateInsert): Promise<LeadDuplicateCandidate> {
+    try {
+      const [candidate] = await db.insert(leadDuplicateCandidates).values(data).returning();
+      return candidate;
+    } catch (error) {
+      console.error("Error creating duplicate candidate:", error);
+      throw new Error("Failed to create duplicate candidate");
+    }
+  },
+
+  async getDuplicateCandidateById(id: number): Promise<LeadDuplicateCandidate | null> {
+    try {
+      const [candidate] = await db
+        .select()
+        .from(leadDuplicateCandidates)
+        .where(eq(leadDuplicateCandidates.id, id));
+
+      return candidate || null;
+    } catch (error) {
+      console.error("Error getting duplicate candidate:", error);
+      return null;
+    }
+  },
+
+  async getDuplicateCandidates(status: string, page: number = 1, perPage: number = 20): Promise<PaginatedResponse<LeadDuplicateCandidate & { lead: Lead | null; duplicateLead: Lead | null }>> {
+    try {
+      const [{ value: totalItems }] = await db
+        .select({ value: count() })
+        .from(leadDuplicateCandidates)
+        .where(eq(leadDuplicateCandidates.status, status));
+
+      const candidates = await db
+        .select()
+        .from(leadDuplicateCandidates)
+        .where(eq(leadDuplicateCandidates.status, status))
+        .orderBy(desc(leadDuplicateCandidates.createdAt))
+        .limit(perPage)
+        .offset((page - 1) * perPage);
+
+      const leadIds = Array.from(new Set(candidates.flatMap(c => [c.leadId, c.duplicateLeadId])));
+      const relatedLeads = leadIds.length > 0
+        ? await db.select().from(leads).where(inArray(leads.id, leadIds))
+        : [];
+      const leadsById = new Map(relatedLeads.map(lead => [lead.id, lead]));
+
+      return {
+        data: candidates.map(candidate => ({
+          ...candidate,
+          lead: leadsById.get(candidate.leadId) ?? null,
+          duplicateLead: leadsById.get(candidate.duplicateLeadId) ?? null,
+        })),
+        meta: {
+          currentPage: page,
+          totalPages: Math.ceil(totalItems / perPage),
+          totalItems,
+          itemsPerPage: perPage,
+        },
+      };
+    } catch (error) {
+      console.error("Error getting duplicate candidates:", error);
+      return {
+        data: [],
+        meta: {
+          currentPage: 1,
+          totalPages: 0,
+          totalItems: 0,
+          itemsPerPage: perPage,
+        },
+      };
+    }
+  },
+
+  async resolveDuplicateCandidate(id: number, status: 'merged' | 'dismissed', resolvedBy: number | null): Promise<LeadDuplicateCandidate | null> {
+    try {
+      const [candidate] = await db
+        .update(leadDuplicateCandidates)
+        .set({ status, resolvedBy, resolvedAt: new Date() })
+        .where(and(eq(leadDuplicateCandidates.id, id), eq(leadDuplicateCandidates.status, 'pending')))
+        .returning();
+
+      return candidate || null;
+    } catch (error) {
+      console.error("Error resolving duplicate candidate:", error);
+      return null;
+    }
+  },
+
+  async mergeLeads(primaryId: number, duplicateId: number, mergedBy: number | null): Promise<Lead | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [primary] = await tx.select().from(leads).where(eq(leads.id, primaryId));
+        const [duplicate] = await tx.select().from(leads).where(eq(leads.id, duplicateId));
+        if (!primary || !duplicate) return null;
+
+        // Fill gaps in the primary lead from the duplicate, never overwriting
+        const protectedFields = new Set(['id', 'createdAt', 'updatedAt', 'score', 'status']);
+        const fill: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(duplicate)) {
+          const current = primary[key as keyof Lead];
+          if (!protectedFields.has(key) && value !== null && value !== '' && (current === null || current === '')) {
+            fill[key] = value;
+          }
+        }
+
+        const [merged] = await tx
+          .update(leads)
+          .set({ ...fill, updatedAt: new Date() })
+          .where(eq(leads.id, primaryId))
+          .returning();
+
+        // Keep the duplicate's original submission and history on the primary lead
+        const [duplicateDetails] = await tx.select().from(leadDetails).where(eq(leadDetails.leadId, duplicateId));
+        await tx.insert(leadTouchpoints).values({
+          leadId: primaryId,
+          type: 'merge',
+          source: duplicate.source,
+          formId: duplicateDetails?.formId ?? null,
+          payload: { ...duplicate, mergedBy },
+          createdAt: duplicate.createdAt ?? new Date(),
+        });
+        await tx.update(leadTouchpoints).set({ leadId: primaryId }).where(eq(leadTouchpoints.leadId, duplicateId));
+        await tx.update(leadScoreSnapshots).set({ leadId: primaryId }).where(eq(leadScoreSnapshots.leadId, duplicateId));
+        await tx.update(leadStatusHistory).set({ leadId: primaryId }).where(eq(leadStatusHistory.leadId, duplicateId));
+        await tx.update(leadAssignments).set({ leadId: primaryId }).where(eq(leadAssignments.leadId, duplicateId));
+        await tx.update(leadCommunications).set({ leadId: primaryId }).where(eq(leadCommunications.leadId, duplicateId));
+        await tx.update(leadTasks).set({ leadId: primaryId }).where(eq(leadTasks.leadId, duplicateId));
+
+        const [primaryDetails] = await tx.select().from(leadDetails).where(eq(leadDetails.leadId, primaryId));
+        if (!primaryDetails && duplicateDetails) {
+          await tx.update(leadDetails).set({ leadId: primaryId }).where(eq(leadDetails.leadId, duplicateId));
+        } else {
+          if (primaryDetails && duplicateDetails) {
+            // Keep custom answers and attribution the primary lead is missing
+            const detailsFill: Partial<LeadDetails> = {};
+            if (duplicateDetails.customAttributes) {
+              detailsFill.customAttributes = { ...duplicateDetails.customAttributes, ...(primaryDetails.customAttributes ?? {}) };
+            }
+            if (duplicateDetails.tags.some(tag => !primaryDetails.tags.includes(tag))) {
+              detailsFill.tags = Array.from(new Set([...primaryDetails.tags, ...duplicateDetails.tags])).sort();
+            }
+            for (const key of mergeableDetailColumns) {
+              if (primaryDetails[key] === null && duplicateDetails[key] !== null) {
+                fillDetailColumn(detailsFill, duplicateDetails, key);
+              }
+            }
+            if (Object.keys(detailsFill).length > 0) {
+              await tx
+                .update(leadDetails)
+                .set(detailsFill)
+                .where(eq(leadDetails.leadId, primaryId));
+            }
+          }
+          await tx.delete(leadDetails).where(eq(leadDetails.leadId, duplicateId));
+        }
+
+        // Resolve the reviewed pair and repoint any other candidates at the primary lead.
+        // Pairs between the two leads keep the duplicate's ID, so none become self-pairs.
+        await tx
+          .update(leadDuplicateCandidates)
+          .set({ status: 'merged', resolvedBy: mergedBy, resolvedAt: new Date() })
+          .where(and(
+            eq(leadDuplicateCandidates.status, 'pending'),
+            or(
+              and(eq(leadDuplicateCandidates.leadId, primaryId), eq(leadDuplicateCandidates.duplicateLeadId, duplicateId)),
+              and(eq(leadDuplicateCandidates.leadId, duplicateId), eq(leadDuplicateCandidates.duplicateLeadId, primaryId)),
+            ),
+          ));
+        await tx
+          .update(leadDuplicateCandidates)
+          .set({ leadId: primaryId })
+          .where(and(eq(leadDuplicateCandidates.leadId, duplicateId), not(eq(leadDuplicateCandidates.duplicateLeadId, primaryId))));
+        await tx
+          .update(leadDuplicateCandidates)
+          .set({ duplicateLeadId: primaryId })
+          .where(and(eq(leadDuplicateCandidates.duplicateLeadId, duplicateId), not(eq(leadDuplicateCandidates.leadId, primaryId))));
+
+        await tx.delete(leads).where(eq(leads.id, duplicateId));
+
+        return merged;
+      });
+    } catch (error) {
+      console.error("Error merging leads:", error);
+      throw new Error("Failed to merge leads");
+    }
+  },
+
+  // Lead score history methods
+  async getLatestScoreSnapshots(leadIds: number[]): Promise<Map<number, LeadScoreSnapshot>> {
+    const latest = new Map<number, LeadScoreSnapshot>();
+    if (leadIds.length === 0) return latest;
+
+    try {
+      const rows = await db
+        .selectDistinctOn([leadScoreSnapshots.leadId])
+        .from(leadScoreSnapshots)
+        .where(inArray(leadScoreSnapshots.leadId, leadIds))
+        .orderBy(leadScoreSnapshots.leadId, desc(leadScoreSnapshots.scoredAt), desc(leadScoreSnapshots.id));
+
+      rows.forEach(row => latest.set(row.leadId, row));
+      return latest;
+    } catch (error) {
+      console.error("Error getting latest score snapshots:", error);
+      throw new Error("Failed to get latest score snapshots");
+    }
+  },
+
+  async getLeadScoreHistory(leadId: number): Promise<LeadScoreSnapshot[]> {
+    try {
+      return await db
+        .select()
+        .from(leadScoreSnapshots)
+        .where(eq(leadScoreSnapshots.leadId, leadId))
+        .orderBy(desc(leadScoreSnapshots.scoredAt));
+    } catch (error) {
+      console.error("Error getting lead score history:", error);
+      return [];
+    }
+  },
+
+  async saveLeadScores(
+    scores: Array<{ leadId: number; score: number }>,
+    snapshots: LeadScoreSnapshotInsert[]
+  ): Promise<void> {
+    if (scores.length === 0 && snapshots.length === 0) return;
+
+    try {
+      await db.transaction(async (tx) => {
+        // Score refreshes are not user edits, so updatedAt is left alone
+        for (const { leadId, score } of scores) {
+          await tx
+            .update(leads)
+            .set({ score })
+            .where(eq(leads.id, leadId));
+        }
+
+        if (snapshots.length > 0) {
+          await tx.insert(leadScoreSnapshots).values(snapshots);
+        }
+      });
+    } catch (error) {
+      console.error("Error saving lead scores:", error);
+      throw new Error("Failed to save lead scores");
+    }
+  },
+
+  // Dashboard methods
+  async getDashboardStats(period: DashboardPeriod): Promise<DashboardStats & { period: DashboardStatsPeriod | null }> {
+    try {
+      const { from, to, timeZone } = period;
+      const periodMs = to.getTime() - from.getTime();
+      const previousFrom = new Date(from.getTime() - periodMs);
+
+      // Today so far is compared with yesterday up to the same time of day
+      const now = new Date();
+      const todayStart = startOfDayInTimeZone(now, timeZone);
+      const yesterdayStart = addDaysInTimeZone(todayStart, -1, timeZone);
+      const yesterdaySameTime = new Date(yesterdayStart.getTime() + (now.getTime() - todayStart.getTime()));
+
+      const between = (start: Date, end: Date) => and(gte(leads.createdAt, start), lt(leads.createdAt, end))!;
+      // Leads in any stage marked as won
+      const qualified = inArray(
+        leads.status,
+        db.select({ key: pipelineStages.key }).from(pipelineStages).where(eq(pipelineStages.outcome, 'won'))
+      );
+
+      const [counts] = await db
+        .select({
+          totalLeads: count(),
+          leadsInPeriod: sql<number>`COUNT(*) FILTER (WHERE ${between(from, to)})`.mapWith(Number),
+          leadsInPreviousPeriod: sql<number>`COUNT(*) FILTER (WHERE ${between(previousFrom, from)})`.mapWith(Number),
+          qualifiedInPeriod: sql<number>`COUNT(*) FILTER (WHERE ${between(from, to)} AND ${qualified})`.mapWith(Number),
+          qualifiedInPreviousPeriod: sql<number>`COUNT(*) FILTER (WHERE ${between(previousFrom, from)} AND ${qualified})`.mapWith(Number),
+          newLeadsToday: sql<number>`COUNT(*) FILTER (WHERE ${gte(leads.createdAt, todayStart)})`.mapWith(Number),
+          leadsYesterday: sql<number>`COUNT(*) FILTER (WHERE ${between(yesterdayStart, yesterdaySameTime)})`.mapWith(Number),
+        })
+        .from(leads);
+
+      // Get total active forms, and how many of them received leads in the period
       const [{ value: activeForms }] = await db
         .select({ value: count() })
         .from(forms)
         .where(eq(forms.active, true));
 
-      // Calculate growth stats (placeholder for now)
-      // In a real app, you would compare with previous periods
-      const leadGrowth = "+15%";
-      const dailyGrowth = "+5%";
-      const conversionRate = "12%";
-      const conversionTrend = "+2%";
-      const formStatus = "Active";
+      const [{ value: activeFormsWithLeads }] = await db
+        .select({ value: sql<number>`COUNT(DISTINCT ${forms.id})`.mapWith(Number) })
+        .from(forms)
+        .innerJoin(leadDetails, eq(leadDetails.formId, forms.id))
+        .innerJoin(leads, eq(leads.id, leadDetails.leadId))
+        .where(and(eq(forms.active, true), between(from, to)));
+
+      const conversionRate = counts.leadsInPeriod > 0 ? (counts.qualifiedInPeriod / counts.leadsInPeriod) * 100 : 0;
+      const previousConversionRate = counts.leadsInPreviousPeriod > 0
+        ? (counts.qualifiedInPreviousPeriod / counts.leadsInPreviousPeriod) * 100
+        : 0;
+
+      let formStatus: string;
+      if (activeForms === 0) {
+        formStatus = "No active forms";
+      } else if (activeFormsWithLeads === 0) {
+        formStatus = "No submissions";
+      } else if (activeFormsWithLeads < activeForms) {
+        formStatus = `${activeFormsWithLeads} of ${activeForms} receiving leads`;
+      } else {
+        formStatus = "Active";
+      }
 
       return {
-        totalLeads,
-        newLeadsToday,
-        leadGrowth,
-        dailyGrowth,
-        conversionRate,
-        conversionTrend,
+        totalLeads: counts.totalLeads,
+        newLeadsToday: counts.newLeadsToday,
+        leadGrowth: formatChange(counts.leadsInPeriod, counts.leadsInPreviousPeriod),
+        dailyGrowth: formatChange(counts.newLeadsToday, counts.leadsYesterday),
+        conversionRate: `${formatNumber(conversionRate)}%`,
+        // Percentage-point change in conversion rate
+        conversionTrend: `${conversionRate >= previousConversionRate ? "+" : ""}${formatNumber(conversionRate - previousConversionRate)}%`,
         activeForms,
         formStatus,
+        period: {
+          from: from.toISOString(),
+          to: to.toISOString(),
+          previousFrom: previousFrom.toISOString(),
+          timeZone,
+          leadsInPeriod: counts.leadsInPeriod,
+          leadsInPreviousPeriod: counts.leadsInPreviousPeriod,
+          qualifiedInPeriod: counts.qualifiedInPeriod,
+          qualifiedInPreviousPeriod: counts.qualifiedInPreviousPeriod,
+          activeFormsWithLeads,
+        },
       };
     } catch (error) {
       console.error("Error getting dashboard stats:", error);
@@ -242,6 +1385,7 @@ export const storage = {
         conversionTrend: "+0%",
         activeForms: 0,
         formStatus: "Unknown",
+        period: null,
       };
     }
   },
@@ -271,75 +1415,1459 @@ export const storage = {
     }
   },
 
-  // Form methods
-  async getAllForms(): Promise<Form[]> {
+  /**
+   * Count leads per interval over a window, bucketed by local time in the
+   * query's time zone. Every bucket in the window is returned, including empty ones.
+   * @param query Window, interval, optional breakdown and lead filters
+   * @returns The time series
+   */
+  async getLeadTimeSeries(query: LeadTimeSeriesQuery): Promise<LeadTimeSeries> {
+    const { from, to, timeZone, interval, breakdown } = query;
+    const group = analyticsGroupSql(breakdown);
+    const conditions = [
+      gte(leads.createdAt, from),
+      lt(leads.createdAt, to),
+      ...buildLeadConditions({ ...query.filters, dateRange: undefined }),
+    ];
+
+    // created_at is stored as UTC without a zone; convert it to local wall
+    // time before truncating so days and weeks start at local midnight
+    const result = await db.execute<{
+      start: Date | string;
+      local_start: string;
+      key: string | null;
+      label: string | null;
+      count: number;
+    }>(sql`
+      WITH params AS (SELECT ${interval}::text AS unit, ${timeZone}::text AS tz),
+      counts AS (
+        SELECT
+          date_trunc(params.unit, (${leads.createdAt} AT TIME ZONE 'UTC') AT TIME ZONE params.tz) AS bucket,
+          ${group.key} AS key,
+          ${group.label} AS label,
+          COUNT(*)::int AS count
+        FROM ${leads}
+        CROSS JOIN params
+        LEFT JOIN ${leadDetails} ON ${leadDetails.leadId} = ${leads.id}
+        LEFT JOIN ${forms} ON ${forms.id} = ${leadDetails.formId}
+        LEFT JOIN ${campaigns} ON ${campaigns.id} = ${leadDetails.campaignId}
+        WHERE ${and(...conditions)}
+        GROUP BY 1, 2, 3
+      ),
+      series AS (
+        SELECT generate_series(
+          date_trunc(params.unit, ${from.toISOString()}::timestamptz AT TIME ZONE params.tz),
+          date_trunc(params.unit, (${to.toISOString()}::timestamptz - interval '1 microsecond') AT TIME ZONE params.tz),
+          ('1 ' || params.unit)::interval
+        ) AS bucket
+        FROM params
+      )
+      SELECT
+        series.bucket AT TIME ZONE params.tz AS start,
+        to_char(series.bucket, 'YYYY-MM-DD"T"HH24:MI') AS local_start,
+        counts.key,
+        counts.label,
+        COALESCE(counts.count, 0)::int AS count
+      FROM series
+      CROSS JOIN params
+      LEFT JOIN counts ON counts.bucket = series.bucket
+      ORDER BY series.bucket, counts.key
+    `);
+
+    const buckets = new Map<string, LeadTimeSeriesBucket>();
+    const groups = new Map<string, LeadTimeSeriesGroup>();
+    let total = 0;
+
+    for (const row of result.rows) {
+      const start = new Date(row.start).toISOString();
+      let bucket = buckets.get(start);
+      if (!bucket) {
+        bucket = { start, localStart: row.local_start, total: 0, ...(breakdown ? { groups: {} } : {}) };
+        buckets.set(start, bucket);
+      }
+
+      const rowCount = Number(row.count);
+      bucket.total += rowCount;
+      total += rowCount;
+
+      if (breakdown && row.key !== null && rowCount > 0) {
+        bucket.groups![row.key] = rowCount;
+        const existing = groups.get(row.key);
+        if (existing) {
+          existing.count += rowCount;
+        } else {
+          groups.set(row.key, { key: row.key, label: row.label ?? row.key, count: rowCount });
+        }
+      }
+    }
+
+    return {
+      interval,
+      timeZone,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      breakdown: breakdown ?? null,
+      total,
+      buckets: Array.from(buckets.values()),
+      groups: Array.from(groups.values()).sort((a, b) => b.count - a.count),
+    };
+  },
+
+  // Form methods
+  async getAllForms(): Promise<Form[]> {
+    try {
+      const forms_list = await db
+        .select()
+        .from(forms)
+        .orderBy(desc(forms.createdAt));
+      
+      return forms_list;
+    } catch (error) {
+      console.error("Error getting forms:", error);
+      return [];
+    }
+  },
+
+  async getFormById(id: number): Promise<Form | null> {
+    try {
+      const [form] = await db
+        .select()
+        .from(forms)
+        .where(eq(forms.id, id));
+      
+      return form || null;
+    } catch (error) {
+      console.error("Error getting form:", error);
+      return null;
+    }
+  },
+
+  async createForm(form: FormInsert): Promise<Form> {
+    try {
+      const [newForm] = await db
+        .insert(forms)
+        .values(form)
+        .returning();
+      
+      return newForm;
+    } catch (error) {
+      console.error("Error creating form:", error);
+      throw new Error("Failed to create form");
+    }
+  },
+
+  async updateForm(id: number, data: Partial<FormInsert>): Promise<Form | null> {
+    try {
+      const [updatedForm] = await db
+        .update(forms)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(forms.id, id))
+        .returning();
+      
+      return updatedForm || null;
+    } catch (error) {
+      console.error("Error updating form:", error);
+      return null;
+    }
+  },
+
+  async deleteForm(id: number): Promise<boolean> {
+    try {
+      // Delete the form's draft fields first. Published versions are kept because
+      // leads record the version they answered.
+      await db
+        .delete(formSchemas)
+        .where(eq(formSchemas.formId, id));
+      
+      const [deletedForm] = await db
+        .delete(forms)
+        .where(eq(forms.id, id))
+        .returning();
+      
+      return !!deletedForm;
+    } catch (error) {
+      console.error("Error deleting form:", error);
+      return false;
+    }
+  },
+
+  async getFormSchema(formId: number): Promise<FormSchema | null> {
+    try {
+      const [formSchema] = await db
+        .select()
+        .from(formSchemas)
+        .where(eq(formSchemas.formId, formId));
+
+      return formSchema || null;
+    } catch (error) {
+      console.error("Error getting form schema:", error);
+      return null;
+    }
+  },
+
+  async setFormSchema(formId: number, { fields, pages }: FormDefinition): Promise<FormSchema> {
+    try {
+      const [formSchema] = await db
+        .insert(formSchemas)
+        .values({ formId, fields, pages, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: formSchemas.formId,
+          set: { fields, pages, updatedAt: new Date() },
+        })
+        .returning();
+
+      return formSchema;
+    } catch (error) {
+      console.error("Error setting form schema:", error);
+      throw new Error("Failed to set form schema");
+    }
+  },
+
+  async setFormDraftDetails(formId: number, { name, description }: { name: string; description: string | null }): Promise<FormSchema> {
+    try {
+      const [formSchema] = await db
+        .insert(formSchemas)
+        .values({ formId, fields: [], pages: [], name, description, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: formSchemas.formId,
+          set: { name, description, updatedAt: new Date() },
+        })
+        .returning();
+
+      return formSchema;
+    } catch (error) {
+      console.error("Error setting form draft details:", error);
+      throw new Error("Failed to set form draft details");
+    }
+  },
+
+  async getFormVersions(formId: number): Promise<FormVersion[]> {
+    try {
+      return await db
+        .select()
+        .from(formVersions)
+        .where(eq(formVersions.formId, formId))
+        .orderBy(desc(formVersions.version));
+    } catch (error) {
+      console.error("Error getting form versions:", error);
+      return [];
+    }
+  },
+
+  async getFormVersionById(id: number): Promise<FormVersion | null> {
+    try {
+      const [formVersion] = await db
+        .select()
+        .from(formVersions)
+        .where(eq(formVersions.id, id));
+
+      return formVersion || null;
+    } catch (error) {
+      console.error("Error getting form version:", error);
+      return null;
+    }
+  },
+
+  async getLiveFormVersion(formId: number): Promise<FormVersion | null> {
+    try {
+      const [formVersion] = await db
+        .select({ formVersion: formVersions })
+        .from(formSchemas)
+        .innerJoin(formVersions, eq(formVersions.id, formSchemas.liveVersionId))
+        .where(eq(formSchemas.formId, formId));
+
+      return formVersion?.formVersion || null;
+    } catch (error) {
+      console.error("Error getting live form version:", error);
+      return null;
+    }
+  },
+
+  async publishFormVersion(
+    formId: number,
+    { fields, pages, name, description }: FormDefinition & { name: string; description: string | null },
+    publishedBy: number | null,
+    notes?: string,
+  ): Promise<FormVersion> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Publishes and rollbacks of a form take turns on its draft row
+        await tx.select({ formId: formSchemas.formId }).from(formSchemas).where(eq(formSchemas.formId, formId)).for('update');
+
+        const [formVersion] = await tx
+          .insert(formVersions)
+          .values({
+            formId,
+            version: sql`(SELECT COALESCE(MAX(${formVersions.version}), 0) + 1 FROM ${formVersions} WHERE ${formVersions.formId} = ${formId})`,
+            name,
+            description,
+            fields,
+            pages,
+            notes: notes ?? null,
+            publishedBy,
+          })
+          .returning();
+
+        await tx
+          .insert(formSchemas)
+          .values({ formId, fields, pages, name, description, liveVersionId: formVersion.id, updatedAt: new Date() })
+          .onConflictDoUpdate({
+            target: formSchemas.formId,
+            set: { liveVersionId: formVersion.id },
+          });
+
+        // The form's own name and description are those of its live version
+        await tx
+          .update(forms)
+          .set({ name, description, updatedAt: new Date() })
+          .where(eq(forms.id, formId));
+
+        return formVersion;
+      });
+    } catch (error) {
+      console.error("Error publishing form version:", error);
+      throw new Error("Failed to publish form version");
+    }
+  },
+
+  async setLiveFormVersion(formId: number, versionId: number): Promise<FormVersion | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        // Publishes and rollbacks of a form take turns on its draft row
+        const [formSchema] = await tx
+          .select({ formId: formSchemas.formId })
+          .from(formSchemas)
+          .where(eq(formSchemas.formId, formId))
+          .for('update');
+        const [formVersion] = await tx
+          .select()
+          .from(formVersions)
+          .where(and(eq(formVersions.id, versionId), eq(formVersions.formId, formId)));
+        if (!formSchema || !formVersion) return null;
+
+        await tx
+          .update(formSchemas)
+          .set({ liveVersionId: versionId })
+          .where(eq(formSchemas.formId, formId));
+        await tx
+          .update(forms)
+          .set({ name: formVersion.name, description: formVersion.description, updatedAt: new Date() })
+          .where(eq(forms.id, formId));
+
+        return formVersion;
+      });
+    } catch (error) {
+      console.error("Error setting live form version:", error);
+      throw new Error("Failed to set live form version");
+    }
+  },
+
+  // Lead draft methods
+  async getLeadDraftByTokenHash(tokenHash: string): Promise<LeadDraft | null> {
+    try {
+      const [draft] = await db
+        .select()
+        .from(leadDrafts)
+        .where(eq(leadDrafts.tokenHash, tokenHash));
+
+      return draft || null;
+    } catch (error) {
+      console.error("Error getting lead draft:", error);
+      return null;
+    }
+  },
+
+  async getLeadDraftById(id: number): Promise<LeadDraft | null> {
+    try {
+      const [draft] = await db
+        .select()
+        .from(leadDrafts)
+        .where(eq(leadDrafts.id, id));
+
+      return draft || null;
+    } catch (error) {
+      console.error("Error getting lead draft:", error);
+      return null;
+    }
+  },
+
+  async saveLeadDraft(data: Omit<LeadDraftInsert, 'id' | 'status' | 'leadId' | 'startedAt' | 'updatedAt' | 'completedAt'>): Promise<LeadDraft | null> {
+    try {
+      const { tokenHash: _tokenHash, ...changes } = data;
+
+      // Drafts stop accepting autosaves once submitted or converted
+      const [draft] = await db
+        .insert(leadDrafts)
+        .values({ ...data, updatedAt: new Date() })
+        .onConflictDoUpdate({
+          target: leadDrafts.tokenHash,
+          set: { ...changes, updatedAt: new Date() },
+          where: eq(leadDrafts.status, 'in_progress'),
+        })
+        .returning();
+
+      return draft || null;
+    } catch (error) {
+      console.error("Error saving lead draft:", error);
+      throw new Error("Failed to save lead draft");
+    }
+  },
+
+  // Close an in-progress draft; returns null if it was already closed, so it can be used as a claim
+  async completeLeadDraft(id: number, status: 'submitted' | 'converted', leadId: number | null): Promise<LeadDraft | null> {
+    try {
+      const [draft] = await db
+        .update(leadDrafts)
+        .set({ status, leadId, completedAt: new Date() })
+        .where(and(eq(leadDrafts.id, id), eq(leadDrafts.status, 'in_progress')))
+        .returning();
+
+      return draft || null;
+    } catch (error) {
+      console.error("Error completing lead draft:", error);
+      return null;
+    }
+  },
+
+  async setLeadDraftLead(id: number, leadId: number): Promise<void> {
+    try {
+      await db
+        .update(leadDrafts)
+        .set({ leadId })
+        .where(eq(leadDrafts.id, id));
+    } catch (error) {
+      console.error("Error linking lead draft to lead:", error);
+    }
+  },
+
+  // Return a converted draft to progress when its lead could not be created
+  async reopenLeadDraft(id: number): Promise<void> {
+    try {
+      await db
+        .update(leadDrafts)
+        .set({ status: 'in_progress', completedAt: null })
+        .where(and(eq(leadDrafts.id, id), eq(leadDrafts.status, 'converted'), isNull(leadDrafts.leadId)));
+    } catch (error) {
+      console.error("Error reopening lead draft:", error);
+    }
+  },
+
+  async getLeadDrafts(filters: { formId?: number; status?: string; updatedBefore?: Date; page?: number; perPage?: number }): Promise<PaginatedResponse<LeadDraft>> {
+    const { formId, status, updatedBefore, page = 1, perPage = 20 } = filters;
+
+    try {
+      const conditions: SQL[] = [];
+      if (formId !== undefined) conditions.push(eq(leadDrafts.formId, formId));
+      if (status) conditions.push(eq(leadDrafts.status, status));
+      if (updatedBefore) conditions.push(lte(leadDrafts.updatedAt, updatedBefore));
+      const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+      const [{ value: totalItems }] = await db
+        .select({ value: count() })
+        .from(leadDrafts)
+        .where(where);
+
+      const data = await db
+        .select()
+        .from(leadDrafts)
+        .where(where)
+        .orderBy(desc(leadDrafts.updatedAt))
+        .limit(perPage)
+        .offset((page - 1) * perPage);
+
+      return {
+        data,
+        meta: {
+          currentPage: page,
+          totalPages: Math.ceil(totalItems / perPage),
+          totalItems,
+          itemsPerPage: perPage,
+        },
+      };
+    } catch (error) {
+      console.error("Error getting lead drafts:", error);
+      return {
+        data: [],
+        meta: {
+          currentPage: 1,
+          totalPages: 0,
+          totalItems: 0,
+          itemsPerPage: perPage,
+        },
+      };
+    }
+  },
+
+  async getDraftAbandonmentStats(formId: number, abandonedBefore: Date): Promise<{
+    started: number;
+    submitted: number;
+    converted: number;
+    inProgress: number;
+    abandoned: number;
+    reachedByField: Record<string, number>;
+    droppedByField: Record<string, number>;
+    droppedAtSubmit: number;
+  }> {
+    try {
+      const isAbandoned = and(eq(leadDrafts.status, 'in_progress'), lte(leadDrafts.updatedAt, abandonedBefore));
+
+      const [totals] = await db
+        .select({
+          started: count(),
+          submitted: sql<number>`COUNT(*) FILTER (WHERE ${leadDrafts.status} = 'submitted')`.mapWith(Number),
+          converted: sql<number>`COUNT(*) FILTER (WHERE ${leadDrafts.status} = 'converted')`.mapWith(Number),
+          abandoned: sql<number>`COUNT(*) FILTER (WHERE ${isAbandoned})`.mapWith(Number),
+        })
+        .from(leadDrafts)
+        .where(eq(leadDrafts.formId, formId));
+
+      // How many drafts answered each field
+      const reached = await db.execute<{ key: string; count: number }>(sql`
+        SELECT answer.key, COUNT(*)::int AS count
+        FROM ${leadDrafts}, jsonb_object_keys(${leadDrafts.answers}) AS answer(key)
+        WHERE ${leadDrafts.formId} = ${formId}
+        GROUP BY answer.key
+      `);
+
+      // Where abandoned drafts stopped
+      const dropped = await db
+        .select({ key: leadDrafts.dropOffFieldKey, count: count() })
+        .from(leadDrafts)
+        .where(and(eq(leadDrafts.formId, formId), isAbandoned))
+        .groupBy(leadDrafts.dropOffFieldKey);
+
+      return {
+        started: totals.started,
+        submitted: totals.submitted,
+        converted: totals.converted,
+        inProgress: totals.started - totals.submitted - totals.converted - totals.abandoned,
+        abandoned: totals.abandoned,
+        reachedByField: Object.fromEntries(reached.rows.map(row => [row.key, Number(row.count)])),
+        droppedByField: Object.fromEntries(dropped.filter(row => row.key).map(row => [row.key!, row.count])),
+        // Abandoned with every visible field answered
+        droppedAtSubmit: dropped.find(row => !row.key)?.count ?? 0,
+      };
+    } catch (error) {
+      console.error("Error getting draft abandonment stats:", error);
+      throw new Error("Failed to get draft abandonment stats");
+    }
+  },
+
+  // Rate limit methods
+  async hitRateLimit(key: string, windowMs: number): Promise<{ count: number; windowStart: Date }> {
+    // Count the hit in the current window, starting a new window once the old one has passed
+    const windowExpired = sql`${rateLimits.windowStart} <= NOW() - ${`${windowMs} milliseconds`}::interval`;
+    const [row] = await db
+      .insert(rateLimits)
+      .values({ key, windowStart: sql`NOW()`, count: 1 })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          count: sql`CASE WHEN ${windowExpired} THEN 1 ELSE ${rateLimits.count} + 1 END`,
+          windowStart: sql`CASE WHEN ${windowExpired} THEN NOW() ELSE ${rateLimits.windowStart} END`,
+        },
+      })
+      .returning({ count: rateLimits.count, windowStart: rateLimits.windowStart });
+
+    return row;
+  },
+
+  async pruneRateLimits(before: Date): Promise<void> {
+    try {
+      await db.delete(rateLimits).where(lte(rateLimits.windowStart, before));
+    } catch (error) {
+      console.error("Error pruning rate limits:", error);
+    }
+  },
+
+  // Quarantine methods
+  async createQuarantinedSubmission(data: QuarantinedSubmissionInsert): Promise<QuarantinedSubmission> {
+    try {
+      const [quarantined] = await db
+        .insert(quarantinedSubmissions)
+        .values(data)
+        .returning();
+
+      return quarantined;
+    } catch (error) {
+      console.error("Error quarantining submission:", error);
+      throw new Error("Failed to quarantine submission");
+    }
+  },
+
+  async getQuarantinedSubmissionById(id: number): Promise<QuarantinedSubmission | null> {
+    try {
+      const [quarantined] = await db
+        .select()
+        .from(quarantinedSubmissions)
+        .where(eq(quarantinedSubmissions.id, id));
+
+      return quarantined || null;
+    } catch (error) {
+      console.error("Error getting quarantined submission:", error);
+      return null;
+    }
+  },
+
+  async getQuarantinedSubmissions(status: string, page: number = 1, perPage: number = 20): Promise<PaginatedResponse<QuarantinedSubmission>> {
+    try {
+      const [{ value: totalItems }] = await db
+        .select({ value: count() })
+        .from(quarantinedSubmissions)
+        .where(eq(quarantinedSubmissions.status, status));
+
+      const data = await db
+        .select()
+        .from(quarantinedSubmissions)
+        .where(eq(quarantinedSubmissions.status, status))
+        .orderBy(desc(quarantinedSubmissions.createdAt))
+        .limit(perPage)
+        .offset((page - 1) * perPage);
+
+      return {
+        data,
+        meta: {
+          currentPage: page,
+          totalPages: Math.ceil(totalItems / perPage),
+          totalItems,
+          itemsPerPage: perPage,
+        },
+      };
+    } catch (error) {
+      console.error("Error getting quarantined submissions:", error);
+      return {
+        data: [],
+        meta: {
+          currentPage: 1,
+          totalPages: 0,
+          totalItems: 0,
+          itemsPerPage: perPage,
+        },
+      };
+    }
+  },
+
+  async resolveQuarantinedSubmission(id: number, status: 'released' | 'rejected', resolvedBy: number | null, leadId: number | null = null): Promise<QuarantinedSubmission | null> {
+    try {
+      const [quarantined] = await db
+        .update(quarantinedSubmissions)
+        .set({ status, resolvedBy, leadId, resolvedAt: new Date() })
+        .where(and(eq(quarantinedSubmissions.id, id), eq(quarantinedSubmissions.status, 'pending')))
+        .returning();
+
+      return quarantined || null;
+    } catch (error) {
+      console.error("Error resolving quarantined submission:", error);
+      return null;
+    }
+  },
+
+  async setQuarantinedSubmissionLead(id: number, leadId: number): Promise<void> {
+    try {
+      await db
+        .update(quarantinedSubmissions)
+        .set({ leadId })
+        .where(eq(quarantinedSubmissions.id, id));
+    } catch (error) {
+      console.error("Error linking quarantined submission to lead:", error);
+    }
+  },
+
+  // Return a released submission to review when its lead could not be created
+  async reopenQuarantinedSubmission(id: number): Promise<void> {
+    try {
+      await db
+        .update(quarantinedSubmissions)
+        .set({ status: 'pending', resolvedBy: null, resolvedAt: null })
+        .where(and(eq(quarantinedSubmissions.id, id), eq(quarantinedSubmissions.status, 'released'), isNull(quarantinedSubmissions.leadId)));
+    } catch (error) {
+      console.error("Error reopening quarantined submission:", error);
+    }
+  },
+
+  // Pipeline methods
+  async getPipelineStages(): Promise<PipelineStage[]> {
+    try {
+      return await db
+        .select()
+        .from(pipelineStages)
+        .orderBy(asc(pipelineStages.position), asc(pipelineStages.id));
+    } catch (error) {
+      // Stage lists are used for validation, so an empty list would mislead
+      console.error("Error getting pipeline stages:", error);
+      throw new Error("Failed to get pipeline stages");
+    }
+  },
+
+  async getPipelineStageById(id: number): Promise<PipelineStage | null> {
+    try {
+      const [stage] = await db
+        .select()
+        .from(pipelineStages)
+        .where(eq(pipelineStages.id, id));
+
+      return stage || null;
+    } catch (error) {
+      console.error("Error getting pipeline stage:", error);
+      return null;
+    }
+  },
+
+  async getPipelineStageByKey(key: string): Promise<PipelineStage | null> {
+    try {
+      const [stage] = await db
+        .select()
+        .from(pipelineStages)
+        .where(eq(pipelineStages.key, key));
+
+      return stage || null;
+    } catch (error) {
+      console.error("Error getting pipeline stage:", error);
+      return null;
+    }
+  },
+
+  async createPipelineStage(data: Omit<PipelineStageInsert, 'id' | 'createdAt' | 'updatedAt'>): Promise<PipelineStage> {
+    try {
+      const [stage] = await db
+        .insert(pipelineStages)
+        .values(data)
+        .returning();
+
+      return stage;
+    } catch (error) {
+      console.error("Error creating pipeline stage:", error);
+      throw new Error("Failed to create pipeline stage");
+    }
+  },
+
+  async updatePipelineStage(id: number, data: Partial<Pick<PipelineStageInsert, 'name' | 'position' | 'active' | 'outcome'>>): Promise<PipelineStage | null> {
+    try {
+      const [stage] = await db
+        .update(pipelineStages)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(pipelineStages.id, id))
+        .returning();
+
+      return stage || null;
+    } catch (error) {
+      console.error("Error updating pipeline stage:", error);
+      return null;
+    }
+  },
+
+  async deletePipelineStage(id: number): Promise<boolean> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [stage] = await tx
+          .delete(pipelineStages)
+          .where(eq(pipelineStages.id, id))
+          .returning();
+        if (!stage) return false;
+
+        // Transitions into or out of the stage go with it
+        await tx
+          .delete(pipelineTransitions)
+          .where(or(eq(pipelineTransitions.fromStage, stage.key), eq(pipelineTransitions.toStage, stage.key)));
+        return true;
+      });
+    } catch (error) {
+      console.error("Error deleting pipeline stage:", error);
+      return false;
+    }
+  },
+
+  async countLeadsWithStatus(status: string): Promise<number> {
+    try {
+      const [{ value }] = await db
+        .select({ value: count() })
+        .from(leads)
+        .where(eq(leads.status, status));
+
+      return value;
+    } catch (error) {
+      console.error("Error counting leads with status:", error);
+      throw new Error("Failed to count leads with status");
+    }
+  },
+
+  async getPipelineTransitions(): Promise<PipelineTransition[]> {
+    try {
+      return await db
+        .select()
+        .from(pipelineTransitions)
+        .orderBy(asc(pipelineTransitions.fromStage), asc(pipelineTransitions.toStage));
+    } catch (error) {
+      console.error("Error getting pipeline transitions:", error);
+      return [];
+    }
+  },
+
+  async getPipelineTransition(fromStage: string, toStage: string): Promise<PipelineTransition | null> {
+    try {
+      const [transition] = await db
+        .select()
+        .from(pipelineTransitions)
+        .where(and(eq(pipelineTransitions.fromStage, fromStage), eq(pipelineTransitions.toStage, toStage)));
+
+      return transition || null;
+    } catch (error) {
+      console.error("Error getting pipeline transition:", error);
+      return null;
+    }
+  },
+
+  async replacePipelineTransitions(transitions: Array<Pick<PipelineTransitionInsert, 'fromStage' | 'toStage' | 'requiredFields'>>): Promise<PipelineTransition[]> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.delete(pipelineTransitions);
+        if (transitions.length === 0) return [];
+        return await tx
+          .insert(pipelineTransitions)
+          .values(transitions)
+          .returning();
+      });
+    } catch (error) {
+      console.error("Error replacing pipeline transitions:", error);
+      throw new Error("Failed to replace pipeline transitions");
+    }
+  },
+
+  // Move a lead to a new status and log the change; see changeLeadStatusWith
+  async changeLeadStatus(
+    leadId: number,
+    fromStatus: string | null,
+    entry: Pick<LeadStatusHistoryInsert, 'toStatus' | 'fields' | 'note' | 'changedBy'>,
+  ): Promise<Lead | null> {
+    try {
+      return await db.transaction(async (tx) => await changeLeadStatusWith(tx, leadId, fromStatus, entry));
+    } catch (error) {
+      console.error("Error changing lead status:", error);
+      throw new Error("Failed to change lead status");
+    }
+  },
+
+  /**
+   * Save edits to a lead and move it to a new status in one transaction, so
+   * neither is saved without the other
+   * @param leadId The lead
+   * @param changes The edits
+   * @param fromStatus The status the move was checked against
+   * @param entry The new status, fields recorded for the move, note and who made it
+   * @returns The updated lead, or null if the lead is gone or its status changed meanwhile
+   */
+  async updateLeadWithStatus(
+    leadId: number,
+    changes: Partial<LeadUpdate>,
+    fromStatus: string | null,
+    entry: Pick<LeadStatusHistoryInsert, 'toStatus' | 'fields' | 'note' | 'changedBy'>,
+  ): Promise<Lead | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        const lead = await changeLeadStatusWith(tx, leadId, fromStatus, entry);
+        if (!lead) return null;
+        if (Object.keys(changes).length === 0) return lead;
+
+        const [updated] = await tx
+          .update(leads)
+          .set({ ...changes, updatedAt: new Date() })
+          .where(eq(leads.id, leadId))
+          .returning();
+        return updated;
+      });
+    } catch (error) {
+      console.error("Error updating lead with status:", error);
+      throw new Error("Failed to update lead");
+    }
+  },
+
+  async recordLeadStatus(entry: Omit<LeadStatusHistoryInsert, 'id' | 'changedAt'>): Promise<void> {
+    try {
+      await db.insert(leadStatusHistory).values(entry);
+    } catch (error) {
+      console.error("Error recording lead status:", error);
+      throw new Error("Failed to record lead status");
+    }
+  },
+
+  async getLeadStatusHistory(leadId: number): Promise<LeadStatusHistoryEntry[]> {
+    try {
+      return await db
+        .select()
+        .from(leadStatusHistory)
+        .where(eq(leadStatusHistory.leadId, leadId))
+        .orderBy(asc(leadStatusHistory.changedAt), asc(leadStatusHistory.id));
+    } catch (error) {
+      console.error("Error getting lead status history:", error);
+      return [];
+    }
+  },
+
+  // Lead assignment methods
+  async getAssignmentRules(): Promise<AssignmentRule[]> {
+    return await db
+      .select()
+      .from(assignmentRules)
+      .orderBy(asc(assignmentRules.position), asc(assignmentRules.id));
+  },
+
+  async createAssignmentRule(data: Omit<AssignmentRuleInsert, 'id' | 'cursor' | 'createdAt' | 'updatedAt'>): Promise<AssignmentRule> {
+    try {
+      const [rule] = await db
+        .insert(assignmentRules)
+        .values(data)
+        .returning();
+
+      return rule;
+    } catch (error) {
+      console.error("Error creating assignment rule:", error);
+      throw new Error("Failed to create assignment rule");
+    }
+  },
+
+  async updateAssignmentRule(id: number, data: Partial<Omit<AssignmentRuleInsert, 'id' | 'cursor' | 'createdBy' | 'createdAt' | 'updatedAt'>>): Promise<AssignmentRule | null> {
+    try {
+      const [rule] = await db
+        .update(assignmentRules)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(assignmentRules.id, id))
+        .returning();
+
+      return rule || null;
+    } catch (error) {
+      console.error("Error updating assignment rule:", error);
+      return null;
+    }
+  },
+
+  async deleteAssignmentRule(id: number): Promise<boolean> {
+    try {
+      const [rule] = await db
+        .delete(assignmentRules)
+        .where(eq(assignmentRules.id, id))
+        .returning();
+
+      return !!rule;
+    } catch (error) {
+      console.error("Error deleting assignment rule:", error);
+      return false;
+    }
+  },
+
+  /**
+   * Claim the next round-robin turn of a rule. The increment is atomic, so
+   * concurrent submissions never get the same turn.
+   * @param id The rule
+   * @returns The number of turns taken before this one
+   */
+  async advanceAssignmentRuleCursor(id: number): Promise<number> {
+    const [rule] = await db
+      .update(assignmentRules)
+      .set({ cursor: sql`${assignmentRules.cursor} + 1` })
+      .where(eq(assignmentRules.id, id))
+      .returning({ cursor: assignmentRules.cursor });
+
+    return rule ? rule.cursor - 1 : 0;
+  },
+
+  async getRecentAssignmentCounts(userIds: number[], since: Date): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (userIds.length === 0) return counts;
+
+    const rows = await db
+      .select({ ownerId: leadDetails.ownerId, count: count() })
+      .from(leadDetails)
+      .where(and(inArray(leadDetails.ownerId, userIds), gte(leadDetails.assignedAt, since)))
+      .groupBy(leadDetails.ownerId);
+
+    for (const row of rows) {
+      if (row.ownerId !== null) counts.set(row.ownerId, row.count);
+    }
+    return counts;
+  },
+
+  // Users that exist and have not been deactivated
+  async getActiveUserIds(userIds: number[]): Promise<Set<number>> {
+    if (userIds.length === 0) return new Set();
+
+    const rows = await db
+      .select({ id: users.id })
+      .from(users)
+      .leftJoin(accountStatus, eq(accountStatus.userId, users.id))
+      .where(and(inArray(users.id, userIds), sql`coalesce(${accountStatus.active}, true)`));
+
+    return new Set(rows.map(row => row.id));
+  },
+
+  async getLeadIdsByOwner(ownerId: number): Promise<number[]> {
+    const rows = await db
+      .select({ leadId: leadDetails.leadId })
+      .from(leadDetails)
+      .where(eq(leadDetails.ownerId, ownerId));
+
+    return rows.map(row => row.leadId);
+  },
+
+  // Set the owner of leads and log each change of owner; see assignLeadsWith
+  async assignLeads(
+    leadIds: number[],
+    ownerId: number | null,
+    by: { assignedBy: number | null; ruleId: number | null },
+  ): Promise<number[]> {
+    if (leadIds.length === 0) return [];
+
+    return await db.transaction(async (tx) => await assignLeadsWith(tx, leadIds, ownerId, by));
+  },
+
+  async getLeadAssignmentHistory(leadId: number): Promise<LeadAssignment[]> {
+    return await db
+      .select()
+      .from(leadAssignments)
+      .where(eq(leadAssignments.leadId, leadId))
+      .orderBy(desc(leadAssignments.assignedAt));
+  },
+
+  // Lead communication methods
+  async createLeadCommunication(data: Omit<LeadCommunicationInsert, 'id' | 'createdAt'>): Promise<LeadCommunication> {
+    try {
+      const [communication] = await db
+        .insert(leadCommunications)
+        .values(data)
+        .returning();
+
+      return communication;
+    } catch (error) {
+      console.error("Error creating lead communication:", error);
+      throw new Error("Failed to create lead communication");
+    }
+  },
+
+  async getLeadCommunicationById(id: number): Promise<LeadCommunication | null> {
     try {
-      const forms_list = await db
+      const [communication] = await db
         .select()
-        .from(forms)
-        .orderBy(desc(forms.createdAt));
-      
-      return forms_list;
+        .from(leadCommunications)
+        .where(eq(leadCommunications.id, id));
+
+      return communication || null;
     } catch (error) {
-      console.error("Error getting forms:", error);
-      return [];
+      console.error("Error getting lead communication:", error);
+      return null;
     }
   },
 
-  async getFormById(id: number): Promise<Form | null> {
+  async getLeadCommunications(leadId: number, type?: string): Promise<LeadCommunication[]> {
+    const conditions = [eq(leadCommunications.leadId, leadId)];
+    if (type) {
+      conditions.push(eq(leadCommunications.type, type));
+    }
+
+    return await db
+      .select()
+      .from(leadCommunications)
+      .where(and(...conditions))
+      .orderBy(desc(leadCommunications.occurredAt), desc(leadCommunications.id));
+  },
+
+  async deleteLeadCommunication(id: number): Promise<boolean> {
     try {
-      const [form] = await db
-        .select()
-        .from(forms)
-        .where(eq(forms.id, id));
-      
-      return form || null;
+      const [communication] = await db
+        .delete(leadCommunications)
+        .where(eq(leadCommunications.id, id))
+        .returning();
+
+      return !!communication;
     } catch (error) {
-      console.error("Error getting form:", error);
-      return null;
+      console.error("Error deleting lead communication:", error);
+      return false;
     }
   },
 
-  async createForm(form: FormInsert): Promise<Form> {
+  // Lead task methods
+  async createLeadTask(data: Omit<LeadTaskInsert, 'id' | 'createdAt' | 'updatedAt'>): Promise<LeadTask> {
     try {
-      const [newForm] = await db
-        .insert(forms)
-        .values(form)
+      const [task] = await db
+        .insert(leadTasks)
+        .values(data)
         .returning();
-      
-      return newForm;
+
+      return task;
     } catch (error) {
-      console.error("Error creating form:", error);
-      throw new Error("Failed to create form");
+      console.error("Error creating lead task:", error);
+      throw new Error("Failed to create lead task");
     }
   },
 
-  async updateForm(id: number, data: Partial<FormInsert>): Promise<Form | null> {
+  async getLeadTaskById(id: number): Promise<LeadTask | null> {
     try {
-      const [updatedForm] = await db
-        .update(forms)
+      const [task] = await db
+        .select()
+        .from(leadTasks)
+        .where(eq(leadTasks.id, id));
+
+      return task || null;
+    } catch (error) {
+      console.error("Error getting lead task:", error);
+      return null;
+    }
+  },
+
+  async updateLeadTask(id: number, data: Partial<Omit<LeadTaskInsert, 'id' | 'leadId' | 'createdBy' | 'createdAt' | 'updatedAt'>>): Promise<LeadTask | null> {
+    try {
+      const [task] = await db
+        .update(leadTasks)
         .set({ ...data, updatedAt: new Date() })
-        .where(eq(forms.id, id))
+        .where(eq(leadTasks.id, id))
         .returning();
-      
-      return updatedForm || null;
+
+      return task || null;
     } catch (error) {
-      console.error("Error updating form:", error);
+      console.error("Error updating lead task:", error);
       return null;
     }
   },
 
-  async deleteForm(id: number): Promise<boolean> {
-    try {
-      const [deletedForm] = await db
-        .delete(forms)
-        .where(eq(forms.id, id))
+  async getTasks(filters: TaskFilters = {}): Promise<PaginatedResponse<LeadTask>> {
+    const { page = 1, perPage = 20 } = filters;
+    // Tasks on deleted leads are kept only while the deletion can be undone
+    const conditions: SQL[] = [inArray(leadTasks.leadId, db.select({ id: leads.id }).from(leads))];
+
+    if (filters.assigneeId !== undefined) {
+      conditions.push(eq(leadTasks.assigneeId, filters.assigneeId));
+    }
+    if (filters.leadId !== undefined) {
+      conditions.push(eq(leadTasks.leadId, filters.leadId));
+    }
+    if (filters.status) {
+      conditions.push(eq(leadTasks.status, filters.status));
+    }
+    if (filters.overdue) {
+      conditions.push(eq(leadTasks.status, 'open'), lt(leadTasks.dueAt, new Date()));
+    }
+
+    const filter = and(...conditions);
+
+    const [{ value: totalItems }] = await db
+      .select({ value: count() })
+      .from(leadTasks)
+      .where(filter);
+
+    // Soonest due first
+    const data = await db
+      .select()
+      .from(leadTasks)
+      .where(filter)
+      .orderBy(asc(leadTasks.dueAt), asc(leadTasks.id))
+      .limit(perPage)
+      .offset((page - 1) * perPage);
+
+    return {
+      data,
+      meta: {
+        currentPage: page,
+        totalPages: Math.ceil(totalItems / perPage),
+        totalItems,
+        itemsPerPage: perPage,
+      },
+    };
+  },
+
+  /**
+   * Flag open tasks that have passed their due time and were not flagged yet
+   * @param now The current time
+   * @returns The newly overdue tasks
+   */
+  async flagOverdueTasks(now: Date): Promise<LeadTask[]> {
+    return await db
+      .update(leadTasks)
+      .set({ overdueAt: now })
+      .where(and(
+        eq(leadTasks.status, 'open'),
+        lt(leadTasks.dueAt, now),
+        isNull(leadTasks.overdueAt),
+        inArray(leadTasks.leadId, db.select({ id: leads.id }).from(leads)),
+      ))
+      .returning();
+  },
+
+  /**
+   * Measure first response for leads created in a window, grouped by the
+   * lead's current owner and the score label it was created with
+   * @param from Start of the window
+   * @param to End of the window (exclusive)
+   * @param targets Target minutes per score label
+   * @param now The current time, for leads not yet contacted
+   * @returns One row per owner and label
+   */
+  async getFirstResponseStats(from: Date, to: Date, targets: FirstResponseTargets, now: Date): Promise<FirstResponseStat[]> {
+    // Timestamps are stored as UTC without a zone
+    const utc = (date: Date) => sql`(${date.toISOString()}::timestamptz AT TIME ZONE 'UTC')`;
+
+    const result = await db.execute<{
+      owner_id: number | null;
+      label: ScoreLabel;
+      leads: number;
+      contacted: number;
+      met: number;
+      breached_late: number;
+      breached_open: number;
+      avg_response_minutes: number | null;
+      breached_lead_ids: number[] | null;
+    }>(sql`
+      WITH lead_response AS (
+        SELECT
+          ${leads.id} AS lead_id,
+          ${leads.createdAt} AS created_at,
+          ${leadDetails.ownerId} AS owner_id,
+          COALESCE((
+            SELECT ${leadScoreSnapshots.label} FROM ${leadScoreSnapshots}
+            WHERE ${leadScoreSnapshots.leadId} = ${leads.id}
+            ORDER BY ${leadScoreSnapshots.scoredAt} ASC, ${leadScoreSnapshots.id} ASC
+            LIMIT 1
+          ), 'Cold') AS label,
+          -- Outbound calls and messages count from when they were logged, since
+          -- the time they happened is entered by the counselor
+          (
+            SELECT MIN(${leadCommunications.createdAt}) FROM ${leadCommunications}
+            WHERE ${leadCommunications.leadId} = ${leads.id}
+              AND ${leadCommunications.type} IN ('call', 'whatsapp')
+              AND ${leadCommunications.direction} = 'outbound'
+          ) AS first_contact_at
+        FROM ${leads}
+        LEFT JOIN ${leadDetails} ON ${leadDetails.leadId} = ${leads.id}
+        WHERE ${leads.createdAt} >= ${utc(from)} AND ${leads.createdAt} < ${utc(to)}
+      ),
+      lead_sla AS (
+        SELECT *,
+          created_at + make_interval(mins => CASE label
+            WHEN 'Hot' THEN ${targets.Hot}::int
+            WHEN 'Warm' THEN ${targets.Warm}::int
+            ELSE ${targets.Cold}::int
+          END) AS due_at
+        FROM lead_response
+      )
+      SELECT
+        owner_id,
+        label,
+        COUNT(*)::int AS leads,
+        COUNT(first_contact_at)::int AS contacted,
+        COUNT(*) FILTER (WHERE first_contact_at <= due_at)::int AS met,
+        COUNT(*) FILTER (WHERE first_contact_at > due_at)::int AS breached_late,
+        COUNT(*) FILTER (WHERE first_contact_at IS NULL AND ${utc(now)} > due_at)::int AS breached_open,
+        AVG(EXTRACT(EPOCH FROM first_contact_at - created_at) / 60)::float AS avg_response_minutes,
+        (ARRAY_AGG(lead_id ORDER BY created_at) FILTER (
+          WHERE first_contact_at > due_at OR (first_contact_at IS NULL AND ${utc(now)} > due_at)
+        ))[1:50] AS breached_lead_ids
+      FROM lead_sla
+      GROUP BY owner_id, label
+    `);
+
+    return result.rows.map(row => ({
+      ownerId: row.owner_id,
+      label: row.label,
+      leads: Number(row.leads),
+      contacted: Number(row.contacted),
+      met: Number(row.met),
+      breachedLate: Number(row.breached_late),
+      breachedOpen: Number(row.breached_open),
+      avgResponseMinutes: row.avg_response_minutes === null ? null : Math.round(Number(row.avg_response_minutes)),
+      breachedLeadIds: row.breached_lead_ids ?? [],
+    }));
+  },
+
+  // Lead bulk action methods
+  async getLeadIds(filters: AdminLeadFilters, limit: number): Promise<number[]> {
+    const conditions = buildLeadConditions(filters);
+    const rows = await db
+      .select({ id: leads.id })
+      .from(leads)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(asc(leads.id))
+      .limit(limit);
+
+    return rows.map(row => row.id);
+  },
+
+  async getLeadsByIds(leadIds: number[]): Promise<Lead[]> {
+    if (leadIds.length === 0) return [];
+    return await db.select().from(leads).where(inArray(leads.id, leadIds));
+  },
+
+  /**
+   * Apply a bulk action in one transaction and record the job. Deleted leads
+   * are kept on the job so the deletion can be undone until the window closes.
+   * @param job The action, its parameters, who ran it and when undo expires
+   * @param operation The writes to make
+   * @param outcomes Results already decided for leads the operation leaves out
+   * @returns The recorded job
+   */
+  async runLeadBulkJob(
+    job: Pick<LeadBulkJobInsert, 'action' | 'params' | 'createdBy' | 'undoExpiresAt'>,
+    operation: LeadBulkOperation,
+    outcomes: LeadBulkResult[],
+  ): Promise<LeadBulkJob> {
+    return await db.transaction(async (tx) => {
+      const results = [...outcomes];
+      const report = (leadIds: number[], updated: number[]) => {
+        const updatedIds = new Set(updated);
+        for (const leadId of leadIds) {
+          results.push(updatedIds.has(leadId) ? { leadId, success: true } : { leadId, success: false, error: "Lead not found" });
+        }
+      };
+
+      let undoData: Record<string, unknown>[] | null = null;
+      switch (operation.action) {
+        case 'status':
+          for (const change of operation.changes) {
+            const lead = await changeLeadStatusWith(tx, change.leadId, change.fromStatus, {
+              toStatus: change.toStatus,
+              fields: change.fields,
+              note: operation.note,
+              changedBy: operation.changedBy,
+            });
+            results.push(lead
+              ? { leadId: change.leadId, success: true }
+              : { leadId: change.leadId, success: false, error: "The lead's status changed in the meantime" });
+          }
+          break;
+        case 'assign':
+          if (operation.leadIds.length > 0) {
+            report(operation.leadIds, await assignLeadsWith(tx, operation.leadIds, operation.ownerId, {
+              assignedBy: operation.assignedBy,
+              ruleId: null,
+            }));
+          }
+          break;
+        case 'tag':
+          if (operation.leadIds.length > 0) {
+            report(operation.leadIds, await tagLeadsWith(tx, operation.leadIds, operation.add, operation.remove));
+          }
+          break;
+        case 'delete':
+          if (operation.leadIds.length > 0) {
+            // Whole rows keyed by column name, so undo can restore them as they were.
+            // Details, history and tasks are keyed by lead ID and stay in place.
+            const deleted = await tx.execute(sql`
+              DELETE FROM ${leads}
+              WHERE ${inArray(leads.id, operation.leadIds)}
+              RETURNING ${leads.id} AS id, to_jsonb(${leads}.*) AS row
+            `);
+            const rows = deleted.rows as Array<{ id: number; row: Record<string, unknown> }>;
+            undoData = rows.map(({ row }) => row);
+            report(operation.leadIds, rows.map(({ id }) => Number(id)));
+          }
+          break;
+      }
+
+      results.sort((a, b) => a.leadId - b.leadId);
+      const succeeded = results.filter(result => result.success).length;
+      const [saved] = await tx
+        .insert(leadBulkJobs)
+        .values({
+          ...job,
+          total: results.length,
+          succeeded,
+          failed: results.length - succeeded,
+          results,
+          undoData,
+          undoExpiresAt: undoData && undoData.length > 0 ? job.undoExpiresAt : null,
+        })
         .returning();
-      
-      return !!deletedForm;
+
+      return saved;
+    });
+  },
+
+  async getLeadBulkJobById(id: number): Promise<LeadBulkJob | null> {
+    const [job] = await db.select().from(leadBulkJobs).where(eq(leadBulkJobs.id, id));
+    return job || null;
+  },
+
+  /**
+   * Restore the leads a bulk deletion removed, if its undo window is still open
+   * @param id The job
+   * @param undoneBy The user undoing it
+   * @param now The current time
+   * @returns The job and the IDs of the restored leads, or null if it can no longer be undone
+   */
+  async undoLeadBulkJob(id: number, undoneBy: number | null, now: Date): Promise<{ job: LeadBulkJob; restored: number[] } | null> {
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(leadBulkJobs)
+        .set({ undoneAt: now, undoneBy })
+        .where(and(
+          eq(leadBulkJobs.id, id),
+          isNull(leadBulkJobs.undoneAt),
+          gt(leadBulkJobs.undoExpiresAt, now),
+          sql`${leadBulkJobs.undoData} is not null`,
+        ))
+        .returning();
+      if (!claimed) return null;
+
+      // Skip any lead whose ID or unique details were taken since it was deleted
+      const inserted = await tx.execute(sql`
+        INSERT INTO ${leads}
+        SELECT * FROM jsonb_populate_recordset(null::${leads}, ${JSON.stringify(claimed.undoData)}::jsonb)
+        ON CONFLICT DO NOTHING
+        RETURNING ${leads.id} AS id
+      `);
+
+      const [job] = await tx
+        .update(leadBulkJobs)
+        .set({ undoData: null })
+        .where(eq(leadBulkJobs.id, id))
+        .returning();
+
+      return { job, restored: (inserted.rows as Array<{ id: number }>).map(row => Number(row.id)) };
+    });
+  },
+
+  /**
+   * Once a bulk deletion can no longer be undone, drop the copies of the
+   * deleted leads and the details, history and tasks still kept for them
+   * @param now The current time
+   * @returns Number of jobs cleared
+   */
+  async clearExpiredLeadBulkUndoData(now: Date): Promise<number> {
+    try {
+      return await db.transaction(async (tx) => {
+        const cleared = await tx
+          .update(leadBulkJobs)
+          .set({ undoData: null })
+          .where(and(sql`${leadBulkJobs.undoData} is not null`, lte(leadBulkJobs.undoExpiresAt, now)))
+          .returning({ results: leadBulkJobs.results });
+
+        const deletedIds = Array.from(new Set(cleared.flatMap(job =>
+          job.results.filter(result => result.success).map(result => result.leadId)
+        )));
+        if (deletedIds.length > 0) {
+          // Leave anything belonging to a lead that exists again
+          const existing = new Set((await tx
+            .select({ id: leads.id })
+            .from(leads)
+            .where(inArray(leads.id, deletedIds))).map(row => row.id));
+          const goneIds = deletedIds.filter(id => !existing.has(id));
+
+          if (goneIds.length > 0) {
+            await tx.delete(leadDetails).where(inArray(leadDetails.leadId, goneIds));
+            await tx.delete(leadTouchpoints).where(inArray(leadTouchpoints.leadId, goneIds));
+            await tx.delete(leadScoreSnapshots).where(inArray(leadScoreSnapshots.leadId, goneIds));
+            await tx.delete(leadStatusHistory).where(inArray(leadStatusHistory.leadId, goneIds));
+            await tx.delete(leadAssignments).where(inArray(leadAssignments.leadId, goneIds));
+            await tx.delete(leadCommunications).where(inArray(leadCommunications.leadId, goneIds));
+            await tx.delete(leadTasks).where(inArray(leadTasks.leadId, goneIds));
+            await tx.delete(leadDuplicateCandidates).where(or(
+              inArray(leadDuplicateCandidates.leadId, goneIds),
+              inArray(leadDuplicateCandidates.duplicateLeadId, goneIds),
+            ));
+          }
+        }
+
+        return cleared.length;
+      });
     } catch (error) {
-      console.error("Error deleting form:", error);
-      return false;
+      console.error("Error clearing expired bulk undo data:", error);
+      throw new Error("Failed to clear expired bulk undo data");
     }
   },
 
@@ -491,14 +3019,14 @@ export const storage = {
   async getAllAdPosts(campaignId?: number): Promise<AdPost[]> {
     try {
       if (campaignId) {
-        return db
-          .select()
+        return await db
+          .select(adPostColumns)
           .from(adPosts)
           .where(eq(adPosts.campaignId, campaignId))
           .orderBy(desc(adPosts.createdAt));
       } else {
-        return db
-          .select()
+        return await db
+          .select(adPostColumns)
           .from(adPosts)
           .orderBy(desc(adPosts.createdAt));
       }
@@ -511,7 +3039,7 @@ export const storage = {
   async getAdPostById(id: number): Promise<AdPost | null> {
     try {
       const [adPost] = await db
-        .select()
+        .select(adPostColumns)
         .from(adPosts)
         .where(eq(adPosts.id, id));
       
@@ -536,6 +3064,35 @@ export const storage = {
     }
   },
 
+  /**
+   * Create an ad post and its tracking link together, so the post never
+   * points at a link that does not exist
+   * @param adPost The post, whose content already includes the link's short URL
+   * @param code The link code
+   * @param targetUrl Builds the link's target from the new post
+   * @returns The post and its link
+   */
+  async createAdPostWithLink(
+    adPost: AdPostInsert,
+    code: string,
+    targetUrl: (adPost: AdPost) => string,
+  ): Promise<{ adPost: AdPost; link: AdPostLink }> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [newAdPost] = await tx.insert(adPosts).values(adPost).returning();
+        const [link] = await tx
+          .insert(adPostLinks)
+          .values({ adPostId: newAdPost.id, code, targetUrl: targetUrl(newAdPost) })
+          .returning();
+
+        return { adPost: newAdPost, link };
+      });
+    } catch (error) {
+      console.error("Error creating ad post with link:", error);
+      throw new Error("Failed to create ad post with link");
+    }
+  },
+
   async updateAdPost(id: number, data: Partial<AdPostInsert>): Promise<AdPost | null> {
     try {
       const [updatedAdPost] = await db
@@ -585,6 +3142,99 @@ export const storage = {
     }
   },
 
+  // Tracking link methods
+  /**
+   * Add a tracking link to an existing ad post
+   * @param data The link
+   * @param postContent New post content carrying the short URL, if it should change
+   * @returns The link
+   */
+  async createAdPostLink(data: Omit<AdPostLinkInsert, 'id' | 'createdAt'>, postContent: string | null = null): Promise<AdPostLink> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [link] = await tx
+          .insert(adPostLinks)
+          .values(data)
+          .returning();
+
+        if (postContent !== null) {
+          await tx
+            .update(adPosts)
+            .set({ postContent, updatedAt: new Date() })
+            .where(eq(adPosts.id, data.adPostId));
+        }
+
+        return link;
+      });
+    } catch (error) {
+      console.error("Error creating ad post link:", error);
+      throw new Error("Failed to create ad post link");
+    }
+  },
+
+  async getAdPostLinkByCode(code: string): Promise<AdPostLink | null> {
+    try {
+      const [link] = await db
+        .select()
+        .from(adPostLinks)
+        .where(eq(adPostLinks.code, code));
+
+      return link || null;
+    } catch (error) {
+      console.error("Error getting ad post link:", error);
+      return null;
+    }
+  },
+
+  async getAdPostLinkByAdPostId(adPostId: number): Promise<AdPostLink | null> {
+    try {
+      const [link] = await db
+        .select()
+        .from(adPostLinks)
+        .where(eq(adPostLinks.adPostId, adPostId));
+
+      return link || null;
+    } catch (error) {
+      console.error("Error getting ad post link:", error);
+      return null;
+    }
+  },
+
+  async recordAdPostClick(click: Omit<AdPostClickInsert, 'id' | 'clickedAt'>): Promise<void> {
+    // Record the click and roll it up into the post's click counter together
+    await db.transaction(async (tx) => {
+      await tx.insert(adPostClicks).values(click);
+      await tx
+        .update(adPosts)
+        .set({ clicks: sql`${adPosts.clicks} + 1` })
+        .where(eq(adPosts.id, click.adPostId));
+    });
+  },
+
+  async getAdPostClickStats(adPostId: number, since: Date): Promise<{
+    total: number;
+    uniqueVisitors: number;
+    byDay: Array<{ day: string; clicks: number }>;
+  }> {
+    const [totals] = await db
+      .select({
+        total: count(),
+        uniqueVisitors: sql<number>`COUNT(DISTINCT ${adPostClicks.ipHash})`.mapWith(Number),
+      })
+      .from(adPostClicks)
+      .where(eq(adPostClicks.adPostId, adPostId));
+
+    const day = sql<string>`to_char(${adPostClicks.clickedAt}, 'YYYY-MM-DD')`;
+    const byDay = await db
+      .select({ day, clicks: count() })
+      .from(adPostClicks)
+      .where(and(eq(adPostClicks.adPostId, adPostId), gte(adPostClicks.clickedAt, since)))
+      .groupBy(day)
+      .orderBy(day);
+
+    return { total: totals.total, uniqueVisitors: totals.uniqueVisitors, byDay };
+  },
+
   async getCampaignPerformance(campaignId: number): Promise<CampaignPerformance | null> {
     try {
       // Get campaign
@@ -593,6 +3243,10 @@ export const storage = {
         return null;
       }
 
+      // Leads captured come from attributed leads rather than the stored post counters
+      const leadsByPost = await this.getAttributedLeadCounts(campaignId);
+      const leadsCaptured = (post: AdPost) => leadsByPost.byAdPost.get(post.id) ?? 0;
+
       // Get ad posts for the campaign
       const posts = await this.getAllAdPosts(campaignId);
       if (!posts.length) {
@@ -601,7 +3255,7 @@ export const storage = {
           totalPosts: 0,
           totalImpressions: 0,
           totalClicks: 0,
-          totalLeads: 0,
+          totalLeads: leadsByPost.total,
           ctr: 0,
           conversionRate: 0,
           platformBreakdown: {
@@ -647,7 +3301,7 @@ export const storage = {
       // Calculate total metrics
       const totalImpressions = posts.reduce((sum, post) => sum + post.impressions, 0);
       const totalClicks = posts.reduce((sum, post) => sum + post.clicks, 0);
-      const totalLeads = posts.reduce((sum, post) => sum + post.leadsCaptured, 0);
+      const totalLeads = leadsByPost.total;
       
       // Calculate rates
       const ctr = totalImpressions > 0 ? (totalClicks / totalImpressions) * 100 : 0;
@@ -668,7 +3322,7 @@ export const storage = {
         if (platform && platformBreakdown[platform]) {
           platformBreakdown[platform].impressions += post.impressions;
           platformBreakdown[platform].clicks += post.clicks;
-          platformBreakdown[platform].leadsCaptured += post.leadsCaptured;
+          platformBreakdown[platform].leadsCaptured += leadsCaptured(post);
         }
       });
 
@@ -697,6 +3351,228 @@ export const storage = {
     }
   },
 
+  async getAttributedLeadCounts(campaignId: number): Promise<{ total: number; byAdPost: Map<number, number> }> {
+    const rows = await db
+      .select({ adPostId: leadDetails.adPostId, value: count() })
+      .from(leadDetails)
+      .where(eq(leadDetails.campaignId, campaignId))
+      .groupBy(leadDetails.adPostId);
+
+    const byAdPost = new Map<number, number>();
+    let total = 0;
+    for (const row of rows) {
+      total += row.value;
+      if (row.adPostId !== null) byAdPost.set(row.adPostId, row.value);
+    }
+
+    return { total, byAdPost };
+  },
+
+  // Scoring rule set methods
+  async getAllScoringRuleSets(): Promise<ScoringRuleSet[]> {
+    try {
+      return await db
+        .select()
+        .from(scoringRuleSets)
+        .orderBy(desc(scoringRuleSets.version));
+    } catch (error) {
+      console.error("Error getting scoring rule sets:", error);
+      return [];
+    }
+  },
+
+  async getScoringRuleSetById(id: number): Promise<ScoringRuleSet | null> {
+    try {
+      const [ruleSet] = await db
+        .select()
+        .from(scoringRuleSets)
+        .where(eq(scoringRuleSets.id, id));
+
+      return ruleSet || null;
+    } catch (error) {
+      console.error("Error getting scoring rule set:", error);
+      return null;
+    }
+  },
+
+  async getActiveScoringRuleSet(): Promise<ScoringRuleSet | null> {
+    try {
+      const [ruleSet] = await db
+        .select()
+        .from(scoringRuleSets)
+        .where(eq(scoringRuleSets.active, true));
+
+      return ruleSet || null;
+    } catch (error) {
+      console.error("Error getting active scoring rule set:", error);
+      return null;
+    }
+  },
+
+  async createScoringRuleSet(data: Omit<ScoringRuleSetInsert, 'version'>): Promise<ScoringRuleSet> {
+    try {
+      const [ruleSet] = await db
+        .insert(scoringRuleSets)
+        .values({
+          ...data,
+          version: sql`(SELECT COALESCE(MAX(${scoringRuleSets.version}), 0) + 1 FROM ${scoringRuleSets})`,
+        })
+        .returning();
+
+      return ruleSet;
+    } catch (error) {
+      console.error("Error creating scoring rule set:", error);
+      throw new Error("Failed to create scoring rule set");
+    }
+  },
+
+  async updateScoringRuleSet(id: number, data: Partial<Pick<ScoringRuleSetInsert, 'name' | 'notes' | 'config'>>): Promise<ScoringRuleSet | null> {
+    try {
+      // Rule sets become immutable once they have been activated
+      const [ruleSet] = await db
+        .update(scoringRuleSets)
+        .set(data)
+        .where(and(eq(scoringRuleSets.id, id), isNull(scoringRuleSets.activatedAt)))
+        .returning();
+
+      return ruleSet || null;
+    } catch (error) {
+      console.error("Error updating scoring rule set:", error);
+      throw new Error("Failed to update scoring rule set");
+    }
+  },
+
+  async activateScoringRuleSet(id: number): Promise<ScoringRuleSet | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select()
+          .from(scoringRuleSets)
+          .where(eq(scoringRuleSets.id, id));
+        if (!existing) return null;
+
+        await tx
+          .update(scoringRuleSets)
+          .set({ active: false })
+          .where(eq(scoringRuleSets.active, true));
+
+        const [ruleSet] = await tx
+          .update(scoringRuleSets)
+          .set({ active: true, activatedAt: existing.activatedAt ?? new Date() })
+          .where(eq(scoringRuleSets.id, id))
+          .returning();
+
+        return ruleSet;
+      });
+    } catch (error) {
+      console.error("Error activating scoring rule set:", error);
+      throw new Error("Failed to activate scoring rule set");
+    }
+  },
+
+  // Scoring model methods
+  async getTrainingLeadsAfterId(
+    outcomes: string[],
+    afterId: number,
+    limit: number
+  ): Promise<Array<{ lead: Lead; details: LeadDetails | null }>> {
+    try {
+      return await db
+        .select({ lead: leads, details: leadDetails })
+        .from(leads)
+        .leftJoin(leadDetails, eq(leadDetails.leadId, leads.id))
+        .where(and(gt(leads.id, afterId), inArray(leads.status, outcomes)))
+        .orderBy(asc(leads.id))
+        .limit(limit);
+    } catch (error) {
+      console.error("Error getting training leads:", error);
+      throw new Error("Failed to get training leads");
+    }
+  },
+
+  async getAllScoringModels(): Promise<ScoringModel[]> {
+    try {
+      return await db
+        .select()
+        .from(scoringModels)
+        .orderBy(desc(scoringModels.version));
+    } catch (error) {
+      console.error("Error getting scoring models:", error);
+      return [];
+    }
+  },
+
+  async getActiveScoringModel(): Promise<ScoringModel | null> {
+    try {
+      const [model] = await db
+        .select()
+        .from(scoringModels)
+        .where(eq(scoringModels.active, true));
+
+      return model || null;
+    } catch (error) {
+      console.error("Error getting active scoring model:", error);
+      return null;
+    }
+  },
+
+  async createScoringModel(data: Omit<ScoringModelInsert, 'version'>): Promise<ScoringModel> {
+    try {
+      const [model] = await db
+        .insert(scoringModels)
+        .values({
+          ...data,
+          version: sql`(SELECT COALESCE(MAX(${scoringModels.version}), 0) + 1 FROM ${scoringModels})`,
+        })
+        .returning();
+
+      return model;
+    } catch (error) {
+      console.error("Error creating scoring model:", error);
+      throw new Error("Failed to create scoring model");
+    }
+  },
+
+  async activateScoringModel(id: number): Promise<ScoringModel | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select()
+          .from(scoringModels)
+          .where(eq(scoringModels.id, id));
+        if (!existing) return null;
+
+        await tx
+          .update(scoringModels)
+          .set({ active: false })
+          .where(eq(scoringModels.active, true));
+
+        const [model] = await tx
+          .update(scoringModels)
+          .set({ active: true, activatedAt: new Date() })
+          .where(eq(scoringModels.id, id))
+          .returning();
+
+        return model;
+      });
+    } catch (error) {
+      console.error("Error activating scoring model:", error);
+      return null;
+    }
+  },
+
+  async deactivateScoringModels(): Promise<void> {
+    try {
+      await db
+        .update(scoringModels)
+        .set({ active: false })
+        .where(eq(scoringModels.active, true));
+    } catch (error) {
+      console.error("Error deactivating scoring models:", error);
+      throw new Error("Failed to deactivate scoring models");
+    }
+  },
+
   // Lead Export methods
   async getAllLeadExports(page: number = 1, perPage: number = 10): Promise<PaginatedResponse<LeadExport>> {
     try {
@@ -0,0 +1,134 @@
+import type { DashboardPeriod } from "./types";
+
+// Reports are in Indian Standard Time unless a request asks otherwise
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check that a string is an IANA time zone the runtime knows
+ * @param timeZone The time zone, e.g. "Asia/Kolkata"
+ * @returns Whether it can be used
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant
+ * @param date The instant
+ * @param timeZone The time zone
+ * @returns Milliseconds to add to UTC to get local time
+ */
+function timeZoneOffsetMs(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value ?? "0");
+  const localAsUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+  return localAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Midnight in a time zone for a local calendar date
+ * @param year Local year
+ * @param month Local month (1-12)
+ * @param day Local day of month
+ * @param timeZone The time zone
+ * @returns The instant local midnight occurs
+ */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const guess = Date.UTC(year, month - 1, day);
+  const offset = timeZoneOffsetMs(new Date(guess), timeZone);
+  // Recompute in case the offset changes between the guess and local midnight
+  return new Date(guess - timeZoneOffsetMs(new Date(guess - offset), timeZone));
+}
+
+/**
+ * Start of the local day containing an instant
+ * @param date The instant
+ * @param timeZone The time zone
+ * @returns Local midnight as an instant
+ */
+export function startOfDayInTimeZone(date: Date, timeZone: string): Date {
+  const local = new Date(date.getTime() + timeZoneOffsetMs(date, timeZone));
+  return zonedMidnight(local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate(), timeZone);
+}
+
+/**
+ * Shift a local midnight by whole days, staying on local midnight
+ * @param date A local midnight
+ * @param days Days to add (may be negative)
+ * @param timeZone The time zone
+ * @returns The shifted local midnight
+ */
+export function addDaysInTimeZone(date: Date, days: number, timeZone: string): Date {
+  return startOfDayInTimeZone(new Date(date.getTime() + days * DAY_MS + DAY_MS / 2), timeZone);
+}
+
+/**
+ * Parse a date parameter. Plain dates ("2024-05-01") mean local midnight in the
+ * time zone; anything else is parsed as an instant.
+ * @param value The parameter value
+ * @param timeZone The time zone for plain dates
+ * @returns The instant, or null if missing or invalid
+ */
+export function parseDateInTimeZone(value: unknown, timeZone: string): Date | null {
+  if (typeof value !== "string" || value === "") return null;
+
+  const plainDate = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (plainDate) {
+    return zonedMidnight(parseInt(plainDate[1]), parseInt(plainDate[2]), parseInt(plainDate[3]), timeZone);
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read a reporting window from query parameters: timezone, fromDate and
+ * toDate. Plain dates are local to the time zone and toDate is inclusive.
+ * @param query The request query
+ * @param defaultDays Days covered when fromDate is missing, ending today
+ * @returns The window, or an error message
+ */
+export function parseReportingPeriod(query: Record<string, unknown>, defaultDays = 30): DashboardPeriod | string {
+  const timeZone = (query.timezone as string) || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    return "Invalid timezone";
+  }
+
+  const now = new Date();
+  const to = query.toDate
+    ? parseDateInTimeZone(query.toDate, timeZone)
+    : now;
+  const from = query.fromDate
+    ? parseDateInTimeZone(query.fromDate, timeZone)
+    : addDaysInTimeZone(startOfDayInTimeZone(now, timeZone), -(defaultDays - 1), timeZone);
+  if (!from || !to) {
+    return "Invalid date range";
+  }
+
+  // An inclusive plain end date covers that whole day
+  const end = typeof query.toDate === "string" && /^\d{4}-\d{2}-\d{2}$/.test(query.toDate)
+    ? addDaysInTimeZone(to, 1, timeZone)
+    : to;
+  if (end <= from) {
+    return "fromDate must be before toDate";
+  }
+
+  return { from, to: end, timeZone };
+}
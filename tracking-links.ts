@@ -0,0 +1,211 @@
+import type { Express } from "express";
+import { randomBytes } from "crypto";
+import type { AdPost, AdPostInsert, Campaign } from "@shared/schema";
+import { storage } from "./storage";
+import { requirePermission } from "./permissions";
+import { hashIp } from "./spam-protection";
+import type { AdPostLink } from "./schema";
+
+const CODE_ALPHABET = "abcdefghijkmnpqrstuvwxyzABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+// Attempts at finding a code no link uses before giving up
+const MAX_CODE_ATTEMPTS = 5;
+
+// How many days of daily click counts the admin stats return
+const CLICK_HISTORY_DAYS = 30;
+
+/**
+ * Generate a random short link code, avoiding easily confused characters
+ * @returns The code
+ */
+export function generateLinkCode(): string {
+  const bytes = randomBytes(CODE_LENGTH);
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+}
+
+/**
+ * Generate a link code that no existing link uses
+ * @returns The code
+ */
+export async function generateUnusedLinkCode(): Promise<string> {
+  for (let attempt = 0; attempt < MAX_CODE_ATTEMPTS; attempt++) {
+    const code = generateLinkCode();
+    if (!(await storage.getAdPostLinkByCode(code))) return code;
+  }
+  throw new Error("Could not generate an unused link code");
+}
+
+/**
+ * Build the public short URL for a link code. The scheduler runs outside any
+ * request, so the base comes from APP_URL.
+ * @param code The link code
+ * @returns Absolute short URL
+ */
+export function buildShortUrl(code: string): string {
+  const base = process.env.APP_URL || `http://localhost:${process.env.PORT || 5000}`;
+  return `${base}/l/${code}`;
+}
+
+/**
+ * Build the URL a tracking link redirects to: the campaign's form with the
+ * click identifier and UTM parameters the lead submission picks up
+ * @param formUrl The campaign's form URL
+ * @param adPost The ad post
+ * @returns Target URL
+ */
+function buildTargetUrl(formUrl: string, adPost: AdPost): string {
+  const params = new URLSearchParams({
+    clk: `ap-${adPost.id}`,
+    utm_source: adPost.platform,
+    utm_medium: "social",
+    utm_campaign: `campaign-${adPost.campaignId}`,
+  });
+
+  try {
+    const url = new URL(formUrl);
+    params.forEach((value, key) => {
+      if (!url.searchParams.has(key)) url.searchParams.set(key, value);
+    });
+    return url.toString();
+  } catch {
+    // Relative form URL
+    return `${formUrl}${formUrl.includes("?") ? "&" : "?"}${params.toString()}`;
+  }
+}
+
+/**
+ * Create an ad post together with its tracking link
+ * @param data The post, whose content already includes the short URL for the code
+ * @param campaign The post's campaign, which must have a form URL
+ * @param code The code in the post content, from generateUnusedLinkCode
+ * @returns The post and its link
+ */
+export async function createAdPostWithTrackingLink(
+  data: AdPostInsert,
+  campaign: Campaign,
+  code: string,
+): Promise<{ adPost: AdPost; link: AdPostLink }> {
+  const formUrl = campaign.formUrl;
+  if (!formUrl) {
+    throw new Error("Campaign has no form URL to link to");
+  }
+
+  return await storage.createAdPostWithLink(data, code, adPost => buildTargetUrl(formUrl, adPost));
+}
+
+/**
+ * Create the tracking link for an existing ad post. A post that has not gone
+ * out yet has its form URL replaced with the short URL, or the short URL added.
+ * @param adPost The ad post
+ * @param campaign The post's campaign, which must have a form URL
+ * @returns The link
+ */
+export async function createTrackingLink(adPost: AdPost, campaign: Campaign): Promise<AdPostLink> {
+  if (!campaign.formUrl) {
+    throw new Error("Campaign has no form URL to link to");
+  }
+
+  const code = await generateUnusedLinkCode();
+  const shortUrl = buildShortUrl(code);
+  let postContent: string | null = null;
+  if (adPost.status === "scheduled") {
+    postContent = adPost.postContent.includes(campaign.formUrl)
+      ? adPost.postContent.split(campaign.formUrl).join(shortUrl)
+      : `${adPost.postContent}\n\nApply now: ${shortUrl}`;
+  }
+
+  return await storage.createAdPostLink({
+    adPostId: adPost.id,
+    code,
+    targetUrl: buildTargetUrl(campaign.formUrl, adPost),
+  }, postContent);
+}
+
+/**
+ * Set up the public redirect route and admin click statistics
+ * @param app Express application
+ */
+export function setupTrackingLinks(app: Express): void {
+  // Record a click and send the visitor on to the form
+  app.get("/l/:code", async (req, res) => {
+    try {
+      const link = await storage.getAdPostLinkByCode(req.params.code);
+      if (!link) {
+        return res.status(404).send("Link not found");
+      }
+
+      try {
+        await storage.recordAdPostClick({
+          linkId: link.id,
+          adPostId: link.adPostId,
+          userAgent: req.get("user-agent")?.slice(0, 500) ?? null,
+          referrer: req.get("referer")?.slice(0, 2000) ?? null,
+          ipHash: hashIp(req.ip),
+        });
+      } catch (error) {
+        // A failed count should never stop the visitor reaching the form
+        console.error("Error recording ad post click:", error);
+      }
+
+      res.redirect(302, link.targetUrl);
+    } catch (error) {
+      console.error("Error following tracking link:", error);
+      res.status(500).send("Error following link");
+    }
+  });
+
+  // Click statistics for an ad post's tracking link
+  app.get("/api/admin/ad-posts/:id/clicks", requirePermission("adPosts", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ad post ID" });
+      }
+
+      const link = await storage.getAdPostLinkByAdPostId(id);
+      if (!link) {
+        return res.status(404).json({ message: "Ad post has no tracking link" });
+      }
+
+      const since = new Date(Date.now() - CLICK_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+      const stats = await storage.getAdPostClickStats(id, since);
+
+      res.json({ shortUrl: buildShortUrl(link.code), targetUrl: link.targetUrl, ...stats });
+    } catch (error) {
+      console.error("Error fetching ad post clicks:", error);
+      res.status(500).json({ message: "Error fetching ad post clicks" });
+    }
+  });
+
+  // Create a tracking link for a post scheduled before links existed, and put it in the post
+  app.post("/api/admin/ad-posts/:id/link", requirePermission("adPosts", "create"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid ad post ID" });
+      }
+
+      const adPost = await storage.getAdPostById(id);
+      if (!adPost) {
+        return res.status(404).json({ message: "Ad post not found" });
+      }
+
+      const existing = await storage.getAdPostLinkByAdPostId(id);
+      if (existing) {
+        return res.json({ ...existing, shortUrl: buildShortUrl(existing.code) });
+      }
+
+      const campaign = await storage.getCampaignById(adPost.campaignId);
+      if (!campaign?.formUrl) {
+        return res.status(400).json({ message: "The post's campaign has no form URL to link to" });
+      }
+
+      const link = await createTrackingLink(adPost, campaign);
+      res.status(201).json({ ...link, shortUrl: buildShortUrl(link.code) });
+    } catch (error) {
+      console.error("Error creating ad post link:", error);
+      res.status(500).json({ message: "Error creating ad post link" });
+    }
+  });
+}
@@ -0,0 +1,132 @@
+import type { LeadFilters } from "@shared/types";
+
+// Server-side types that extend the shared types
+
+export type ScoreLabel = 'Hot' | 'Warm' | 'Cold';
+
+// Lead list filters supported by storage.getAllLeads. Every list filter matches
+// any of the given values.
+export interface AdminLeadFilters extends Omit<LeadFilters, 'source' | 'status'> {
+  source?: string | string[];
+  status?: string | string[];
+  state?: string[];
+  city?: string[];
+  education?: string[];
+  college?: string[];
+  formId?: number[];
+  scoreLabel?: ScoreLabel[];
+  scoreMin?: number;
+  scoreMax?: number;
+  ownerId?: number[];
+  // Include leads with no owner; combined with ownerId, matches either
+  unassigned?: boolean;
+  tag?: string[];
+}
+
+// Reporting window for dashboard stats. The previous period is the same length
+// immediately before `from`.
+export interface DashboardPeriod {
+  from: Date;
+  to: Date;
+  timeZone: string;
+}
+
+export interface DashboardStatsPeriod {
+  from: string;
+  to: string;
+  previousFrom: string;
+  timeZone: string;
+  leadsInPeriod: number;
+  leadsInPreviousPeriod: number;
+  qualifiedInPeriod: number;
+  qualifiedInPreviousPeriod: number;
+  activeFormsWithLeads: number;
+}
+
+export type AnalyticsInterval = 'hour' | 'day' | 'week' | 'month';
+
+export type AnalyticsBreakdown = 'source' | 'state' | 'scoreLabel' | 'status' | 'form' | 'campaign';
+
+// Lead counts over a reporting window, bucketed by local calendar time
+export interface LeadTimeSeriesQuery extends DashboardPeriod {
+  interval: AnalyticsInterval;
+  breakdown?: AnalyticsBreakdown;
+  filters?: AdminLeadFilters;
+}
+
+export interface LeadTimeSeriesBucket {
+  // Bucket start as an instant, and as local time in the requested time zone
+  start: string;
+  localStart: string;
+  total: number;
+  // Counts per breakdown group key; only present when a breakdown was requested
+  groups?: Record<string, number>;
+}
+
+export interface LeadTimeSeriesGroup {
+  key: string;
+  label: string;
+  count: number;
+}
+
+export interface LeadTimeSeries {
+  interval: AnalyticsInterval;
+  timeZone: string;
+  from: string;
+  to: string;
+  breakdown: AnalyticsBreakdown | null;
+  total: number;
+  buckets: LeadTimeSeriesBucket[];
+  // Breakdown groups with their totals over the window, largest first
+  groups: LeadTimeSeriesGroup[];
+}
+
+// Task list filters supported by storage.getTasks
+export interface TaskFilters {
+  assigneeId?: number;
+  leadId?: number;
+  status?: string;
+  // Only open tasks past their due time
+  overdue?: boolean;
+  page?: number;
+  perPage?: number;
+}
+
+// Minutes from lead creation to first call or WhatsApp message, per score label
+export type FirstResponseTargets = Record<ScoreLabel, number>;
+
+// First-response results for one owner and score label. A breach is a lead
+// first contacted after its target, or not yet contacted and already past it.
+export interface FirstResponseStat {
+  ownerId: number | null;
+  label: ScoreLabel;
+  leads: number;
+  contacted: number;
+  met: number;
+  breachedLate: number;
+  breachedOpen: number;
+  avgResponseMinutes: number | null;
+  breachedLeadIds: number[];
+}
+
+export type LeadBulkAction = 'status' | 'assign' | 'tag' | 'delete';
+
+// Outcome of a bulk action for one lead
+export interface LeadBulkResult {
+  leadId: number;
+  success: boolean;
+  error?: string;
+}
+
+// Writes for a bulk action, applied in one transaction. Leads whose outcome is
+// already known are left out and reported through the job's results.
+export type LeadBulkOperation =
+  | {
+      action: 'status';
+      changes: Array<{ leadId: number; fromStatus: string | null; toStatus: string; fields: Record<string, unknown> }>;
+      note: string | null;
+      changedBy: number | null;
+    }
+  | { action: 'assign'; leadIds: number[]; ownerId: number | null; assignedBy: number | null }
+  | { action: 'tag'; leadIds: number[]; add: string[]; remove: string[] }
+  | { action: 'delete'; leadIds: number[] };
@@ -0,0 +1,431 @@
+import type { Express, Request } from "express";
+import { z } from "zod";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import { hashPassword, sanitizeUser } from "./auth";
+import { requirePermission, roles } from "./permissions";
+import { summarizeSessions, resolveSessionId } from "./sessions";
+import { validatePassword } from "./password-policy";
+import { sendMail } from "./mailer";
+
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+const inviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(roles as [string, ...string[]]),
+  fullName: z.string().optional(),
+});
+
+const acceptInviteSchema = z.object({
+  token: z.string().min(1),
+  username: z.string().min(3),
+  password: z.string().min(1),
+  fullName: z.string().optional(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(1),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const roleSchema = z.object({
+  role: z.enum(roles as [string, ...string[]]),
+});
+
+/**
+ * Hash a one-time token for storage
+ * @param token The raw token
+ * @returns Hex-encoded SHA-256 digest
+ */
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generate a one-time token
+ * @returns The raw token (to send to the user) and its hash (to store)
+ */
+export function generateToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("hex");
+  return { token, tokenHash: hashToken(token) };
+}
+
+/**
+ * Build an absolute link into the client app
+ * @param req The current request
+ * @param pathname Path on the client app
+ * @returns Absolute URL
+ */
+export function buildAppUrl(req: Request, pathname: string): string {
+  const base = process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+  return `${base}${pathname}`;
+}
+
+/**
+ * Issue a password reset token for a user
+ * @param userId The user to reset
+ * @param createdBy The admin issuing the reset, if any
+ * @returns The raw token
+ */
+export async function issuePasswordResetToken(userId: number, createdBy?: number): Promise<string> {
+  const { token, tokenHash } = generateToken();
+  // Only the newest reset link works
+  await storage.revokeUserTokens(userId, "password_reset");
+  await storage.createUserToken({
+    tokenHash,
+    purpose: "password_reset",
+    userId,
+    createdBy: createdBy ?? null,
+    expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+  });
+  return token;
+}
+
+/**
+ * Set up admin user management and invitation routes
+ * @param app Express application
+ */
+export function setupUserManagement(app: Express): void {
+  // List users
+  app.get("/api/admin/users", requirePermission("users", "read"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(sanitizeUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Error fetching users" });
+    }
+  });
+
+  // List pending invitations
+  app.get("/api/admin/users/invites", requirePermission("users", "read"), async (req, res) => {
+    try {
+      const invites = await storage.getPendingInvites();
+      res.json(invites.map(({ tokenHash: _tokenHash, ...invite }) => invite));
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+      res.status(500).json({ message: "Error fetching invites" });
+    }
+  });
+
+  // Invite a user by email
+  app.post("/api/admin/users/invite", requirePermission("users", "create"), async (req, res) => {
+    try {
+      const parsed = inviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const { email, role, fullName } = parsed.data;
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        return res.status(400).json({ message: "A user with this email already exists" });
+      }
+
+      const { token, tokenHash } = generateToken();
+      const invite = await storage.createUserToken({
+        tokenHash,
+        purpose: "invite",
+        email,
+        role,
+        fullName: fullName || null,
+        createdBy: req.user!.id,
+        expiresAt: new Date(Date.now() + INVITE_TTL_MS),
+      });
+
+      const inviteUrl = buildAppUrl(req, `/invite/${token}`);
+      await sendMail({
+        to: email,
+        subject: "You have been invited to Student Lead Pro",
+        text: `${req.user!.fullName || req.user!.username} invited you to join Student Lead Pro as ${role}.\n\nAccept your invitation within 7 days: ${inviteUrl}`,
+      });
+
+      res.status(201).json({
+        id: invite.id,
+        email,
+        role,
+        expiresAt: invite.expiresAt,
+        inviteUrl,
+      });
+    } catch (error) {
+      console.error("Error inviting user:", error);
+      res.status(500).json({ message: "Error inviting user" });
+    }
+  });
+
+  // Change a user's role
+  app.patch("/api/admin/users/:id/role", requirePermission("users", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const parsed = roleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      if (id === req.user!.id && parsed.data.role !== "admin") {
+        return res.status(400).json({ message: "You cannot remove your own admin role" });
+      }
+
+      const user = await storage.updateUser(id, { role: parsed.data.role });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(sanitizeUser(user));
+    } catch (error) {
+      console.error("Error changing user role:", error);
+      res.status(500).json({ message: "Error changing user role" });
+    }
+  });
+
+  // Deactivate a user
+  app.post("/api/admin/users/:id/deactivate", requirePermission("users", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You cannot deactivate your own account" });
+      }
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const status = await storage.setAccountStatus(id, { active: false, deactivatedAt: new Date() });
+      await storage.deleteUserSessions(id);
+      res.json({ ...sanitizeUser(user), active: status.active });
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({ message: "Error deactivating user" });
+    }
+  });
+
+  // Reactivate a user
+  app.post("/api/admin/users/:id/reactivate", requirePermission("users", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const status = await storage.setAccountStatus(id, { active: true, deactivatedAt: null });
+      res.json({ ...sanitizeUser(user), active: status.active });
+    } catch (error) {
+      console.error("Error reactivating user:", error);
+      res.status(500).json({ message: "Error reactivating user" });
+    }
+  });
+
+  // Force a password reset on next login
+  app.post("/api/admin/users/:id/force-password-reset", requirePermission("users", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await storage.setAccountStatus(id, { mustResetPassword: true });
+      const token = await issuePasswordResetToken(id, req.user!.id);
+      const resetUrl = buildAppUrl(req, `/reset-password/${token}`);
+
+      if (user.email) {
+        await sendMail({
+          to: user.email,
+          subject: "Reset your Student Lead Pro password",
+          text: `An administrator has required you to reset your password.\n\nChoose a new password within the next hour: ${resetUrl}`,
+        });
+      }
+
+      res.json({ resetUrl });
+    } catch (error) {
+      console.error("Error forcing password reset:", error);
+      res.status(500).json({ message: "Error forcing password reset" });
+    }
+  });
+
+  // List a user's active sessions
+  app.get("/api/admin/users/:id/sessions", requirePermission("users", "read"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const rows = await storage.getUserSessions(id);
+      res.json(summarizeSessions(rows, req.sessionID));
+    } catch (error) {
+      console.error("Error fetching user sessions:", error);
+      res.status(500).json({ message: "Error fetching user sessions" });
+    }
+  });
+
+  // Revoke one of a user's sessions
+  app.delete("/api/admin/users/:id/sessions/:sessionId", requirePermission("users", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const sid = await resolveSessionId(id, req.params.sessionId);
+      if (!sid || !(await storage.deleteUserSession(id, sid))) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking user session:", error);
+      res.status(500).json({ message: "Error revoking user session" });
+    }
+  });
+
+  // Revoke all of a user's sessions
+  app.delete("/api/admin/users/:id/sessions", requirePermission("users", "update"), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      if (isNaN(id)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+
+      const revoked = await storage.deleteUserSessions(id);
+      res.json({ revoked });
+    } catch (error) {
+      console.error("Error revoking user sessions:", error);
+      res.status(500).json({ message: "Error revoking user sessions" });
+    }
+  });
+
+  // Accept an invitation and create the account
+  app.post("/api/invites/accept", async (req, res, next) => {
+    try {
+      const parsed = acceptInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const { token, username, password, fullName } = parsed.data;
+      const invite = await storage.getValidUserToken(hashToken(token), "invite");
+      if (!invite) {
+        return res.status(400).json({ message: "Invitation is invalid or has expired" });
+      }
+
+      const existingUser = await storage.getUserByUsername(username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      const passwordErrors = validatePassword(password, { username, email: invite.email });
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors: passwordErrors });
+      }
+
+      // Claims the token and creates the user together, so the invitation
+      // cannot be reused concurrently and is not spent if creation fails
+      const user = await storage.createUserFromToken(invite.id, {
+        username,
+        password: await hashPassword(password),
+        email: invite.email,
+        fullName: fullName || invite.fullName,
+        role: invite.role || "counselor",
+      });
+      if (!user) {
+        return res.status(400).json({ message: "Invitation is invalid or has expired" });
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(sanitizeUser(user));
+      });
+    } catch (error) {
+      console.error("Error accepting invite:", error);
+      res.status(500).json({ message: "Error accepting invite" });
+    }
+  });
+
+  // Request a password reset email. Always responds the same way so the
+  // endpoint cannot be used to discover which emails have accounts.
+  app.post("/api/forgot-password", async (req, res) => {
+    try {
+      const parsed = forgotPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const user = await storage.getUserByEmail(parsed.data.email);
+      const status = user ? await storage.getAccountStatus(user.id) : null;
+      if (user && user.email && status?.active) {
+        const token = await issuePasswordResetToken(user.id);
+        await sendMail({
+          to: user.email,
+          subject: "Reset your Student Lead Pro password",
+          text: `We received a request to reset your password.\n\nChoose a new password within the next hour: ${buildAppUrl(req, `/reset-password/${token}`)}\n\nIf you did not request this, you can ignore this email.`,
+        });
+      }
+
+      res.json({ message: "If an account exists for that email, a reset link has been sent" });
+    } catch (error) {
+      console.error("Error requesting password reset:", error);
+      res.status(500).json({ message: "Error requesting password reset" });
+    }
+  });
+
+  // Reset a password with a one-time token
+  app.post("/api/reset-password", async (req, res) => {
+    try {
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ errors: parsed.error.errors });
+      }
+
+      const { token, password } = parsed.data;
+      const resetToken = await storage.getValidUserToken(hashToken(token), "password_reset");
+      const user = resetToken?.userId ? await storage.getUser(resetToken.userId) : undefined;
+      if (!resetToken || !user) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      const passwordErrors = validatePassword(password, user);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ message: "Password does not meet the policy", errors: passwordErrors });
+      }
+
+      if (!(await storage.markUserTokenUsed(resetToken.id))) {
+        return res.status(400).json({ message: "Reset link is invalid or has expired" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(password) });
+      await storage.setAccountStatus(user.id, { mustResetPassword: false });
+
+      // A reset invalidates every existing session
+      await storage.deleteUserSessions(user.id);
+
+      res.json({ message: "Password has been reset" });
+    } catch (error) {
+      console.error("Error resetting password:", error);
+      res.status(500).json({ message: "Error resetting password" });
+    }
+  });
+}